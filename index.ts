@@ -5,7 +5,8 @@
  * model selection, and progress monitoring capabilities.
  */
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
-import { Type } from "@sinclair/typebox";
+import { Type, type TSchema } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -23,6 +24,26 @@ interface ModelConfig {
     reasoning: 'basic' | 'medium' | 'advanced' | 'complex';
     [key: string]: any;
   };
+  pricing?: ModelPricing;
+}
+
+/** Price of a model in USD per million tokens */
+interface ModelPricing {
+  input_per_mtok: number;
+  output_per_mtok: number;
+}
+
+/** Token usage and spend */
+interface Usage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** Spend caps for a main task */
+interface Budget {
+  maxCostUsd?: number;
+  maxTokens?: number;
 }
 
 /** Main task status */
@@ -30,11 +51,41 @@ interface MainTask {
   id: string;
   description: string;
   priority: 'high' | 'medium' | 'low';
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'aborted';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'aborted' | 'frozen';
   createdAt: number;
   subTasks: SubTask[];
   completedAt?: number;
   error?: string;
+  dependencyFailurePolicy?: 'skip' | 'fail';  // What happens to dependents when upstream work fails
+  maxConcurrency?: number;  // Max sub-agents in flight at once (unset = unlimited)
+  reduce?: ReduceStage;     // Aggregation stage created once all other sub-tasks complete
+  retryPolicy?: RetryPolicy;
+  usage?: Usage;            // Sum of all sub-task usage
+  budget?: Budget;
+  budgetExceededAt?: number;  // Actual spend crossed the budget; no further sub-tasks are released
+  budgetHold?: string;        // Why the last release wave was held back by projected spend
+  frozenAt?: number;          // Paused at task level: no sub-task is released until resumed
+  frozenReason?: string;
+}
+
+/** Retry policy for failed sub-tasks of a main task */
+interface RetryPolicy {
+  maxAttempts: number;        // Total attempts per sub-task, including the first
+  backoffMs: number;          // Delay before the first retry, doubled for each further retry
+  fallbackModels?: string[];  // Models to try on retries, in order (then ModelSelector's chain)
+}
+
+/** Reduce stage configuration for a main task */
+interface ReduceStage {
+  description: string;
+  rolePrompt?: string;
+  expectedOutcome?: string;
+  outcomeSchema?: Record<string, any>;
+  modelId?: string;
+  difficulty?: SubTask['difficulty'];
+  requiredCapabilities?: string[];
+  costPreference?: CostPreference;
+  subTaskId?: string;  // Set once the aggregation sub-task has been created
 }
 
 /** Sub-task status */
@@ -47,27 +98,265 @@ interface SubTask {
   rolePrompt: string;
   stepsToExecute: string[];
   currentStepIndex: number;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'aborted' | 'frozen';
+  status: 'pending' | 'running' | 'stalled' | 'orphaned' | 'completed' | 'failed' | 'aborted' | 'frozen' | 'skipped' | 'invalid_result';
   startTime?: number;
   endTime?: number;
-  estimatedDuration?: number;
+  estimatedDuration?: number;          // Projected run time of the current attempt (see ModelStats.estimate)
   actualDuration?: number;
   errorLog?: string;
   expectedOutcome: string;
+  difficulty?: 'basic' | 'medium' | 'complex';
+  requiredCapabilities?: string[];    // Model capabilities the sub-task needs
+  costPreference?: CostPreference;
+  preferredModels?: string[];
+  planKey?: string;        // Key from the caller's plan (referenced by depends_on)
+  dependsOn?: string[];    // Sub-task IDs that must complete before this one is released
+  releasedAt?: number;     // When spawn instructions were first surfaced
+  kind?: 'reduce';         // Aggregation sub-task created by the reduce stage
+  result?: string;         // Text body of the sub-agent's result
+  resultPath?: string;     // Durable result artifact (see ResultStore)
+  outcomeSchema?: Record<string, any>;  // JSON Schema the structured result must satisfy
+  validationErrors?: string[];          // Set when status is invalid_result
+  attempts?: SubTaskAttempt[];          // History of finished attempts
+  retryAfter?: number;                  // A scheduled retry is not released before this time
+  usage?: Usage;                        // Total across all attempts
+  attemptUsage?: Usage;                 // Last cumulative report of the current attempt
+  frozenAt?: number;                    // Set while status is frozen
+  frozenFrom?: 'pending' | 'running';   // Status restored on resume
+  frozenMs?: number;                    // Frozen time of the current attempt, excluded from its duration
+  resumedAt?: number;                   // Last resume from a pause; silence before it does not count as a stall
+  stalledAt?: number;                   // Set while status is stalled
+  nudgedAt?: number;                    // When the stalled sub-agent was asked to report progress
+  sessionEnd?: SessionEndRecord;        // How the last session end was reconciled
+  orphanedAt?: number;                  // Set while status is orphaned (no sign of the session after a restart)
+  previousSessionIds?: string[];        // Sessions unbound from this sub-task, oldest first
+  timeline?: ProgressTimelineEntry[];   // Every observed step transition, across attempts
+  stepDurations?: number[];             // Milliseconds per step of the current attempt (index = step - 1), from the timeline
+}
+
+/** One finished attempt of a sub-task */
+interface SubTaskAttempt {
+  attempt: number;
+  modelId?: string;
+  sessionId?: string;
+  status: SubTask['status'];
+  error?: string;
+  startedAt?: number;
+  endedAt: number;
+  frozenMs?: number;
+}
+
+/** One step transition observed in a sub-agent's progress reports */
+interface ProgressTimelineEntry {
+  at: number;
+  attempt: number;
+  step: number;
+  totalSteps: number;
+  status: ProgressReport['status'];
+  message?: string;
+}
+
+/** Cost preference used for model selection */
+type CostPreference = 'low' | 'medium' | 'high';
+
+/** Raw per-model counters (see ModelStats) */
+interface ModelStatsEntry {
+  modelId: string;
+  attempts: number;
+  successes: number;
+  timeouts: number;
+  durationsMs: number[];  // Durations of recent successful attempts
+}
+
+/** Learned reliability of one model */
+interface ModelStatsSummary {
+  modelId: string;
+  attempts: number;
+  successRate: number;   // 0-1
+  timeoutRate: number;   // 0-1
+  medianDurationMs?: number;
+}
+
+/** Typical run time of a kind of sub-task, learned from completed ones */
+interface DurationEstimate {
+  medianMs: number;
+  lowMs: number;       // 25th percentile
+  highMs: number;      // 75th percentile
+  samples: number;
+  basis: 'model+steps' | 'model' | 'steps' | 'kind';  // Breakdown the estimate came from
+}
+
+/** Projected finish of a sub-task or main task, with its confidence range */
+interface Eta {
+  finishAt: number;
+  earliest: number;
+  latest: number;
+}
+
+/** Requirements a model is ranked against (see ModelSelector.rankModels) */
+interface ModelRequest {
+  difficulty: 'basic' | 'medium' | 'complex';
+  requiredCapabilities: string[];
+  costPreference: CostPreference;
+  preferredModels?: string[];
+  limit?: number;      // Maximum models returned (default: MODEL_RANKING_LIMIT)
+}
+
+/** One model's place in a ranking */
+interface RankedModel {
+  model: ModelConfig;
+  score: number;       // 0-100
+  eligible: boolean;   // Passes the capability, cost and reasoning filters
+  reasons: string[];   // What the model scored on
+  rejections: string[];  // Filters the model failed (empty when eligible)
+}
+
+/** Caller-supplied sub-task plan entry (orchestrate `subtasks` parameter) */
+interface SubTaskPlan {
+  description: string;
+  role_prompt?: string;
+  steps_to_execute?: string[];
+  expected_outcome?: string | Record<string, any>;  // Free text, or a JSON Schema for result.data
+  difficulty?: 'basic' | 'medium' | 'complex';
+  capabilities?: string[];
+  cost?: CostPreference;
+  models?: string;
+  key?: string;
+  depends_on?: string[];
+}
+
+/** Caller-supplied reduce stage (orchestrate `reduce` parameter) */
+interface ReducePlan {
+  description: string;
+  role_prompt?: string;
+  expected_outcome?: string | Record<string, any>;
+  difficulty?: 'basic' | 'medium' | 'complex';
+  capabilities?: string[];
+  cost?: CostPreference;
+  models?: string;
+}
+
+/** Instructions for the calling agent to spawn one sub-agent */
+interface SpawnInstruction {
+  subTaskId: string;
+  task: string;
+  originalTask: string;
+  suggestedModel: string;
+  spawnCommand: {
+    tool: string;
+    params: { task: string; model: string };
+  };
+}
+
+/** Progress marker sent by a sub-agent in its messages */
+interface ProgressMarker {
+  kind: 'progress' | 'complete' | 'failed';
+  subTaskId: string;
+  step?: number;         // 1-based, progress markers only
+  totalSteps?: number;
+  message: string;       // Step description, result, or failure reason
+}
+
+/** Outcome of a sub-agent session, decided from its progress evidence when the session ends */
+interface SessionEndRecord {
+  sessionId: string;
+  endedAt: number;
+  durationMs?: number;
+  outcome: 'completed' | 'failed' | 'no_report';
+  source: 'progress' | 'none';  // Evidence the outcome was decided from
+  reason: string;
+  lastReport?: ProgressReport;  // Last progress report seen, without its result (stored in the ResultStore)
+}
+
+/** Result of the startup recovery pass over sub-tasks left running by the previous process */
+interface RecoveryReport {
+  ranAt: number;
+  checked: number;                                          // Running, stalled or orphaned sub-tasks found in the loaded state
+  alive: string[];                                          // Still showing signs of life
+  recovered: Array<{ subTaskId: string; status: SubTask['status'] }>;  // Settled from a final progress report
+  orphaned: string[];                                       // Marked orphaned (and not re-queued)
+  requeued: string[];                                       // Orphans put back in the queue (requeueOrphaned)
+  awaitingBind: string[];                                   // Pending with spawn instructions out but no session bound
+}
+
+/** Parsed sub-agent session ID */
+interface SessionKey {
+  key: string;        // Trimmed ID as given
+  agentId?: string;   // <x> in agent:<x>:subagent:<uuid>
+  uuid: string;       // <uuid>, or the whole ID if it is not in that format
+}
+
+/** A sub-task bound to a session */
+interface SessionMatch {
+  mainTask: MainTask;
+  subTask: SubTask;
+}
+
+/** Result of resolving a session ID */
+interface SessionLookup {
+  success: boolean;
+  code?: 'INVALID_SESSION_ID' | 'SESSION_NOT_FOUND' | 'SESSION_AMBIGUOUS';
+  error?: string;
+  match?: SessionMatch;
+  matches?: string[];  // Sub-task IDs of an ambiguous lookup
+}
+
+/** Outcome of binding one session to a sub-task */
+interface BindResult {
+  success: boolean;
+  subTaskId: string;
+  sessionId: string;
+  error?: string;             // Error code when success is false
+  message?: string;
+  mainTaskId?: string;
+  status?: SubTask['status'];
+  previousSessionId?: string; // Session replaced by a rebind
+  currentSession?: string;    // Set with ALREADY_BOUND
+  waitingOn?: string[];       // Set with DEPENDENCIES_NOT_MET
+  retryAfter?: number;        // Set with RETRY_BACKOFF
+}
+
+/** A sub-task found stalled by heartbeat checks */
+interface StallNotice {
+  mainTaskId: string;
+  subTaskId: string;
+  sessionId?: string;
+  silentMs: number;
+  nudge?: string;             // sessions_send call for the calling agent to make
 }
 
 /** Task state storage */
 interface TaskState {
   tasks: MainTask[];
-  version: string;
+  version: number;  // STATE_SCHEMA_VERSION
   lastUpdated: number;
 }
 
+/** Contents of models.json */
+interface ModelsFile {
+  version: number;  // MODELS_SCHEMA_VERSION
+  models: ModelConfig[];
+}
+
+/** Upgrade of a persisted file from the previous schema version */
+interface SchemaMigration {
+  to: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+/** One line of state/tasks.journal.jsonl; the latest entry for a task or sub-task wins */
+type JournalEntry = { at: number; pid: number; version: number } & (
+  | { op: 'task'; task: Omit<MainTask, 'subTasks'> }
+  | { op: 'subtask'; subTask: SubTask }
+  | { op: 'delete'; taskId: string }
+);
+
 /** Activity log entry */
 interface ActivityLogEntry {
   timestamp: number;
   timestamp_iso: string;
-  event_type: 'task_dispatched' | 'subagent_spawned' | 'subagent_completed' | 'subagent_failed' | 'subagent_aborted' | 'message_injected' | 'error';
+  event_type: 'task_dispatched' | 'subagent_spawned' | 'subagent_completed' | 'subagent_failed' | 'subagent_aborted' | 'subagent_invalid_result' | 'subagent_retried' | 'subtask_released' | 'subtask_paused' | 'subtask_resumed' | 'subtask_stalled' | 'subtask_orphaned' | 'session_reconciled' | 'task_cancelled' | 'session_unbound' | 'budget_exceeded' | 'message_injected' | 'error';
   task_id?: string;
   sub_task_id?: string;
   child_session_id?: string;
@@ -93,6 +382,38 @@ interface OrchestratorConfig {
   cleanupIntervalMs: number;         // Cleanup interval (default: 6 hours)
   sessionTimeoutMs: number;         // Session timeout threshold (default: 2 hours)
   autoAbortTimeout: boolean;         // Auto-abort timed out sessions (default: false)
+  heartbeatIntervalMs: number;       // Longest silence allowed per step before a running sub-task is stalled (default: 10 minutes, 0 disables)
+  autoNudgeStalled: boolean;         // Ask stalled sub-agents to report progress (default: false)
+  requeueOrphaned: boolean;          // Re-queue sub-tasks orphaned by a restart (default: false)
+
+  // Dispatch queue configuration
+  maxConcurrentSubagents: number;            // Plugin-wide limit on sub-agents in flight (default: 10)
+  maxConcurrentPerProvider: number;          // Per-provider limit on sub-agents in flight (default: 5)
+  providerLimits: Record<string, number>;    // Per-provider overrides, keyed by provider name
+  starvationAgeMs: number;                   // Queue wait that raises a sub-task by one priority level (default: 10 minutes)
+  releaseTimeoutMs: number;                  // Released sub-tasks still unbound after this stop holding a slot (default: 30 minutes, 0 disables)
+}
+
+/** A ready sub-task waiting in the dispatch queue */
+interface QueuedSubTask {
+  mainTask: MainTask;
+  subTask: SubTask;
+  readySince: number;      // When the sub-task became eligible to run
+  blockedReason?: string;  // Set when the sub-task cannot be released regardless of capacity (e.g. budget)
+}
+
+/** Dispatch queue decision for one queued sub-task */
+interface DispatchDecision extends QueuedSubTask {
+  position: number;        // 1-based position in the plugin-wide queue
+  effectivePriority: number;
+  release: boolean;
+  waitReason?: string;     // Why the sub-task stays queued
+}
+
+/** One pass of the dispatch queue over every main task */
+interface DispatchPlan {
+  decisions: DispatchDecision[];
+  budgetHolds: Map<string, string | undefined>;  // Main task ID -> why its budget holds sub-tasks back
 }
 
 /** Progress report file format */
@@ -105,6 +426,26 @@ interface ProgressReport {
   message: string;
   timestamp: number;
   percentage: number;
+  result?: {               // Result artifact, reported with the final "completed" status
+    text?: string;
+    data?: any;
+    files?: string[];
+  };
+  usage?: {                // Cumulative usage of the sub-agent session so far
+    input_tokens?: number;
+    output_tokens?: number;
+    cost_usd?: number;
+  };
+}
+
+/** Durable result artifact of a sub-task */
+interface SubTaskResult {
+  subTaskId: string;
+  mainTaskId: string;
+  text: string;
+  data?: any;
+  files: string[];
+  recordedAt: number;
 }
 
 /** API capabilities detection result */
@@ -131,9 +472,141 @@ const DEFAULT_CONFIG: OrchestratorConfig = {
   enableAutoCleanup: true,
   cleanupIntervalMs: 6 * 60 * 60 * 1000,  // 6 hours
   sessionTimeoutMs: 2 * 60 * 60 * 1000,  // 2 hours
-  autoAbortTimeout: false
+  autoAbortTimeout: false,
+  heartbeatIntervalMs: 10 * 60 * 1000,  // 10 minutes
+  autoNudgeStalled: false,
+  requeueOrphaned: false,
+
+  // Dispatch queue defaults
+  maxConcurrentSubagents: 10,
+  maxConcurrentPerProvider: 5,
+  providerLimits: {},
+  starvationAgeMs: 10 * 60 * 1000,  // 10 minutes
+  releaseTimeoutMs: 30 * 60 * 1000  // 30 minutes
+};
+
+const MAX_SUBTASKS = 5;
+
+const MAX_RETRY_ATTEMPTS = 5;
+
+const DEFAULT_RETRY_BACKOFF_MS = 30 * 1000;
+
+/** Reasoning levels able to handle each task difficulty */
+const REASONING_BY_DIFFICULTY: Record<string, string[]> = {
+  'basic': ['basic', 'medium', 'advanced', 'complex'],
+  'medium': ['medium', 'advanced', 'complex'],
+  'complex': ['advanced', 'complex']
+};
+
+/** Capability levels, lowest first */
+const SPEED_LEVELS = ['slow', 'medium', 'fast', 'very_fast'];
+const COST_LEVELS = ['very_low', 'low', 'medium', 'high'];
+const CONTEXT_LEVELS = ['short', 'medium', 'long'];
+const REASONING_LEVELS = ['basic', 'medium', 'advanced', 'complex'];
+
+/** Model costs accepted by each cost preference */
+const COST_RANGES: Record<string, string[]> = {
+  'low': ['very_low', 'low'],
+  'medium': ['low', 'medium'],
+  'high': ['medium', 'high']
+};
+
+/** Points each criterion contributes to a model's ranking score (sum: 100) */
+const MODEL_SCORE_WEIGHTS = {
+  reasoning: 35,
+  cost: 30,
+  speed: 15,
+  context: 10,
+  capabilities: 10
+};
+
+/** Models returned by ModelSelector.rankModels unless the request sets a limit */
+const MODEL_RANKING_LIMIT = 5;
+
+/** Activity events that end an attempt, and whether the attempt succeeded */
+const MODEL_STATS_OUTCOMES: Record<string, 'success' | 'failure'> = {
+  'subagent_completed': 'success',
+  'subagent_failed': 'failure',
+  'subagent_aborted': 'failure',
+  'subagent_invalid_result': 'failure',
+  'subagent_retried': 'failure'
+};
+
+/** Abort reason for sub-agents stopped by the caller (not held against the model) */
+const MANUAL_ABORT_REASON = 'Aborted manually';
+
+/** Error of attempts lost to a restart and re-queued (not held against the model) */
+const ORPHANED_REASON = 'Orphaned: no sign of the sub-agent session after restart';
+
+/** Finished attempts needed before a model's stats affect its ranking */
+const MODEL_STATS_MIN_ATTEMPTS = 3;
+
+/** Successful attempts kept per model for the median duration */
+const MODEL_STATS_DURATION_WINDOW = 50;
+
+/** Completed sub-tasks needed before a duration breakdown is used for estimates */
+const DURATION_STATS_MIN_SAMPLES = 3;
+
+/** Completed sub-tasks kept per duration breakdown */
+const DURATION_STATS_WINDOW = 50;
+
+/** Journal entries after which the state is compacted into tasks.json */
+const STATE_COMPACT_ENTRIES = 1000;
+
+/** Wait for the state lock before giving up on a change (the wait blocks the event loop, changes hold the lock for milliseconds) */
+const STATE_LOCK_TIMEOUT_MS = 1000;
+
+/** Age after which a lock left behind by a crashed writer is broken */
+const STATE_LOCK_STALE_MS = 30 * 1000;
+
+/** Maximum ranking points lost to a poor track record */
+const MODEL_RELIABILITY_PENALTIES = {
+  failure: 30,   // Scaled by failure rate
+  timeout: 10,   // Scaled by timeout rate
+  slowness: 10   // Reached at twice the typical median duration
+};
+
+/** Model requirements for sub-tasks whose plan does not set them */
+const PRIORITY_MODEL_DEFAULTS: Record<MainTask['priority'], { difficulty: 'basic' | 'medium' | 'complex'; cost: CostPreference }> = {
+  'high': { difficulty: 'complex', cost: 'high' },
+  'medium': { difficulty: 'medium', cost: 'medium' },
+  'low': { difficulty: 'basic', cost: 'low' }
+};
+
+/** Queue rank of each main task priority (higher is released first) */
+const PRIORITY_RANK: Record<MainTask['priority'], number> = {
+  'high': 3,
+  'medium': 2,
+  'low': 1
 };
 
+/** Priority levels a waiting sub-task can gain through aging */
+const MAX_PRIORITY_AGING = 2;
+
+/** Assumed usage of a sub-task before any sub-task of its main task has reported usage */
+const DEFAULT_SUBTASK_USAGE_ESTIMATE = { inputTokens: 30000, outputTokens: 8000 };
+
+/** Sub-task statuses that end a sub-task's lifecycle */
+const TERMINAL_SUBTASK_STATUSES: SubTask['status'][] = ['completed', 'failed', 'aborted', 'skipped', 'invalid_result'];
+
+/** Sub-task statuses with a sub-agent session at work */
+const LIVE_SUBTASK_STATUSES: SubTask['status'][] = ['running', 'stalled'];
+
+/** Sub-task statuses a main task never has; a status filter on them matches tasks with such a sub-task */
+const SUBTASK_ONLY_STATUSES: SubTask['status'][] = ['stalled', 'orphaned', 'skipped', 'invalid_result'];
+
+const MAX_FANOUT_ITEMS = 200;
+
+const DEFAULT_FANOUT_CONCURRENCY = 5;
+
+const DEFAULT_ROLE_PROMPT = 'You are an efficient AI assistant, please complete the task strictly according to instructions and report results upon completion.';
+
+const DEFAULT_STEPS = ['Analyze task requirements', 'Plan execution steps', 'Execute task', 'Verify results', 'Report completion'];
+
+const REDUCE_ROLE_PROMPT = 'You are a meticulous editor, please merge the results of the sub-tasks below into one consistent deliverable and report it upon completion.';
+
+const REDUCE_STEPS = ['Review all sub-task results', 'Resolve overlaps and conflicts', 'Merge results into one deliverable', 'Verify completeness', 'Report completion'];
+
 const DEFAULT_MODELS: ModelConfig[] = [
   {
     id: "anthropic/claude-sonnet-4-5",
@@ -142,7 +615,8 @@ const DEFAULT_MODELS: ModelConfig[] = [
       cost: "medium",
       context_length: "long",
       reasoning: "advanced"
-    }
+    },
+    pricing: { input_per_mtok: 3, output_per_mtok: 15 }
   },
   {
     id: "anthropic/claude-haiku-4-5",
@@ -151,7 +625,8 @@ const DEFAULT_MODELS: ModelConfig[] = [
       cost: "low",
       context_length: "medium",
       reasoning: "medium"
-    }
+    },
+    pricing: { input_per_mtok: 1, output_per_mtok: 5 }
   },
   {
     id: "gemini-2.0-flash",
@@ -160,7 +635,8 @@ const DEFAULT_MODELS: ModelConfig[] = [
       cost: "very_low",
       context_length: "medium",
       reasoning: "medium"
-    }
+    },
+    pricing: { input_per_mtok: 0.1, output_per_mtok: 0.4 }
   },
   {
     id: "gemini-2.0-pro",
@@ -169,716 +645,3283 @@ const DEFAULT_MODELS: ModelConfig[] = [
       cost: "medium",
       context_length: "long",
       reasoning: "advanced"
-    }
+    },
+    pricing: { input_per_mtok: 1.25, output_per_mtok: 10 }
   }
 ];
 
 // ============================================================================
-// Task State Manager
+// Schema Migrations
 // ============================================================================
 
-class TaskStateManager {
-  private statePath: string;
-  private tasksFile: string;
-  private state: TaskState;
-  private logger: any;
-
-  constructor(statePath: string, logger: any) {
-    this.statePath = statePath;
-    this.tasksFile = path.join(statePath, 'tasks.json');
-    this.logger = logger;
-    this.state = { tasks: [], version: '1.0', lastUpdated: Date.now() };
-    this.load();
-  }
-
-  private load(): void {
-    try {
-      if (fs.existsSync(this.tasksFile)) {
-        const content = fs.readFileSync(this.tasksFile, 'utf-8');
-        this.state = JSON.parse(content);
-        this.logger.info(`Loaded ${this.state.tasks.length} tasks from ${this.tasksFile}`);
+/** Upgrades of tasks.json, in order; the last one defines the current version */
+const STATE_MIGRATIONS: SchemaMigration[] = [
+  {
+    to: 2,
+    description: 'numeric version; paused sub-tasks record the status to resume to',
+    migrate: (state: any) => {
+      for (const mainTask of state.tasks || []) {
+        for (const subTask of mainTask.subTasks || []) {
+          if (subTask.status === 'frozen' && !subTask.frozenFrom) {
+            subTask.frozenFrom = subTask.childSessionId ? 'running' : 'pending';
+            subTask.frozenAt = subTask.frozenAt || state.lastUpdated || Date.now();
+          }
+        }
       }
-    } catch (error) {
-      this.logger.error(`Failed to load tasks from ${this.tasksFile}:`, error);
-      this.state = { tasks: [], version: '1.0', lastUpdated: Date.now() };
+      return { ...state, version: 2 };
     }
   }
+];
 
-  private async save(): Promise<void> {
-    try {
-      // Ensure directory exists
-      if (!fs.existsSync(this.statePath)) {
-        fs.mkdirSync(this.statePath, { recursive: true });
-      }
-
-      // Atomic write: write to temp file, then rename
-      const tempFile = `${this.tasksFile}.tmp`;
-      this.state.lastUpdated = Date.now();
-      fs.writeFileSync(tempFile, JSON.stringify(this.state, null, 2));
-      fs.renameSync(tempFile, this.tasksFile);
-      this.logger.debug(`Saved ${this.state.tasks.length} tasks to ${this.tasksFile}`);
-    } catch (error) {
-      this.logger.error(`Failed to save tasks to ${this.tasksFile}:`, error);
-      throw error;
-    }
+/** Upgrades of models.json, in order; the last one defines the current version */
+const MODELS_MIGRATIONS: SchemaMigration[] = [
+  {
+    to: 2,
+    description: 'model list wrapped in a versioned document',
+    migrate: (models: any) => ({ version: 2, models })
   }
+];
 
-  createMainTask(description: string, priority: 'high' | 'medium' | 'low' = 'medium'): MainTask {
-    const task: MainTask = {
-      id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      description,
-      priority,
-      status: 'pending',
-      createdAt: Date.now(),
-      subTasks: []
-    };
-    this.state.tasks.push(task);
-    this.save();
-    return task;
-  }
+const STATE_SCHEMA_VERSION = STATE_MIGRATIONS[STATE_MIGRATIONS.length - 1].to;
+const MODELS_SCHEMA_VERSION = MODELS_MIGRATIONS[MODELS_MIGRATIONS.length - 1].to;
+
+const literals = (values: string[]) => Type.Union(values.map(value => Type.Literal(value)));
+
+const UsageSchema = Type.Object({
+  inputTokens: Type.Number(),
+  outputTokens: Type.Number(),
+  costUsd: Type.Number()
+});
+
+const SubTaskStatusSchema = literals(['pending', 'running', 'stalled', 'orphaned', 'completed', 'failed', 'aborted', 'frozen', 'skipped', 'invalid_result']);
+
+/** Persisted sub-task; fields not listed here are not checked */
+const SubTaskSchema = Type.Object({
+  id: Type.String(),
+  mainTaskId: Type.String(),
+  childSessionId: Type.Optional(Type.String()),
+  modelId: Type.Optional(Type.String()),
+  taskDescription: Type.String(),
+  rolePrompt: Type.String(),
+  stepsToExecute: Type.Array(Type.String()),
+  currentStepIndex: Type.Number(),
+  status: SubTaskStatusSchema,
+  startTime: Type.Optional(Type.Number()),
+  endTime: Type.Optional(Type.Number()),
+  expectedOutcome: Type.String(),
+  dependsOn: Type.Optional(Type.Array(Type.String())),
+  kind: Type.Optional(Type.Literal('reduce')),
+  attempts: Type.Optional(Type.Array(Type.Object({
+    attempt: Type.Number(),
+    status: SubTaskStatusSchema,
+    endedAt: Type.Number()
+  }))),
+  usage: Type.Optional(UsageSchema),
+  attemptUsage: Type.Optional(UsageSchema),
+  frozenFrom: Type.Optional(literals(['pending', 'running'])),
+  previousSessionIds: Type.Optional(Type.Array(Type.String())),
+  timeline: Type.Optional(Type.Array(Type.Object({
+    at: Type.Number(),
+    attempt: Type.Number(),
+    step: Type.Number(),
+    totalSteps: Type.Number(),
+    status: Type.String()
+  })))
+});
+
+/** Persisted main task; fields not listed here are not checked */
+const MainTaskSchema = Type.Object({
+  id: Type.String(),
+  description: Type.String(),
+  priority: literals(['high', 'medium', 'low']),
+  status: literals(['pending', 'running', 'completed', 'failed', 'aborted', 'frozen']),
+  createdAt: Type.Number(),
+  subTasks: Type.Array(SubTaskSchema),
+  completedAt: Type.Optional(Type.Number()),
+  dependencyFailurePolicy: Type.Optional(literals(['skip', 'fail'])),
+  maxConcurrency: Type.Optional(Type.Number()),
+  reduce: Type.Optional(Type.Object({ description: Type.String(), subTaskId: Type.Optional(Type.String()) })),
+  retryPolicy: Type.Optional(Type.Object({ maxAttempts: Type.Number(), backoffMs: Type.Number() })),
+  usage: Type.Optional(UsageSchema),
+  budget: Type.Optional(Type.Object({ maxCostUsd: Type.Optional(Type.Number()), maxTokens: Type.Optional(Type.Number()) }))
+});
+
+const TaskStateSchema = Type.Object({
+  tasks: Type.Array(MainTaskSchema),
+  version: Type.Literal(STATE_SCHEMA_VERSION),
+  lastUpdated: Type.Number()
+});
+
+const ModelsFileSchema = Type.Object({
+  version: Type.Literal(MODELS_SCHEMA_VERSION),
+  models: Type.Array(Type.Object({
+    id: Type.String(),
+    capabilities: Type.Object({
+      speed: literals(SPEED_LEVELS),
+      cost: literals(COST_LEVELS),
+      context_length: literals(CONTEXT_LEVELS),
+      reasoning: literals(REASONING_LEVELS)
+    }),
+    pricing: Type.Optional(Type.Object({ input_per_mtok: Type.Number(), output_per_mtok: Type.Number() }))
+  }))
+});
 
-  createSubTask(mainTaskId: string, taskDescription: string, rolePrompt: string, stepsToExecute: string[], expectedOutcome: string): SubTask | null {
-    const mainTask = this.state.tasks.find(t => t.id === mainTaskId);
-    if (!mainTask) return null;
+/**
+ * Schema version stored in a file; files from before versioning (e.g. '1.0' or none) are version 1
+ */
+function schemaVersion(value: unknown): number {
+  const version = typeof value === 'number' ? value : parseInt(String(value ?? '1'), 10);
+  return Number.isInteger(version) && version >= 1 ? version : 1;
+}
 
-    const subTask: SubTask = {
-      id: `${mainTaskId}-sub-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
-      mainTaskId,
-      taskDescription,
-      rolePrompt,
-      stepsToExecute,
-      currentStepIndex: 0,
-      status: 'pending',
-      expectedOutcome
-    };
+/**
+ * Error for a file written by a newer plugin version, which must not be read or overwritten
+ */
+function newerSchemaError(file: string, version: number, current: number): Error {
+  return new Error(`${file} has schema version ${version}, but this plugin version only supports up to ${current}. Refusing to load it; upgrade the plugin.`);
+}
 
-    mainTask.subTasks.push(subTask);
-    this.save();
-    return subTask;
+/**
+ * Bring a parsed file up to the current schema version and validate it
+ *
+ * The data is backed up to `{file}.v{n}.backup` before each step. Files newer
+ * than the code, and data that fails validation, are refused with an error.
+ */
+function migrateDocument<T>(file: string, data: any, version: number, migrations: SchemaMigration[], schema: TSchema, logger: any): T {
+  const current = migrations[migrations.length - 1].to;
+  if (version > current) {
+    throw newerSchemaError(file, version, current);
   }
 
-  updateSubTaskStatus(subTaskId: string, status: SubTask['status'], updates: Partial<SubTask> = {}): boolean {
-    for (const mainTask of this.state.tasks) {
-      const subTask = mainTask.subTasks.find(st => st.id === subTaskId);
-      if (subTask) {
-        subTask.status = status;
-        Object.assign(subTask, updates);
-
-        // Update main task status if all sub-tasks are done
-        const allDone = mainTask.subTasks.every(st =>
-          st.status === 'completed' || st.status === 'failed' || st.status === 'aborted'
-        );
-        const anyFailed = mainTask.subTasks.some(st => st.status === 'failed');
-        const anyAborted = mainTask.subTasks.some(st => st.status === 'aborted');
-
-        if (allDone) {
-          mainTask.status = anyFailed ? 'failed' : (anyAborted ? 'aborted' : 'completed');
-          mainTask.completedAt = Date.now();
-        }
-
-        this.save();
-        return true;
-      }
-    }
-    return false;
+  for (const step of migrations) {
+    if (step.to <= version) continue;
+    const backupFile = `${file}.v${version}.backup`;
+    fs.writeFileSync(backupFile, JSON.stringify(data, null, 2));
+    data = step.migrate(data);
+    logger.info(`Migrated ${file} from schema version ${version} to ${step.to} (${step.description}), backup: ${backupFile}`);
+    version = step.to;
   }
 
-  getTask(taskId: string): MainTask | null {
-    return this.state.tasks.find(t => t.id === taskId) || null;
+  if (!Value.Check(schema, data)) {
+    const errors = [...Value.Errors(schema, data)].slice(0, 5).map(e => `${e.path || '/'}: ${e.message}`);
+    throw new Error(`${file} does not match schema version ${current}: ${errors.join('; ')}`);
   }
+  return data as T;
+}
 
-  getAllTasks(): MainTask[] {
-    return this.state.tasks;
-  }
+// ============================================================================
+// Session Registry
+// ============================================================================
 
-  getTaskBySessionId(sessionId: string): { mainTask: MainTask; subTask: SubTask } | null {
-    for (const mainTask of this.state.tasks) {
-      // Support two matching formats:
-      // 1. Full format: agent:main:subagent:xxx
-      // 2. Short ID: xxx
-      const subTask = mainTask.subTasks.find(st => {
-        if (!st.childSessionId) return false;
-        // Exact match
-        if (st.childSessionId === sessionId) return true;
-        // Check if contains short ID (sessionKey format: agent:xxx:subagent:uuid)
-        if (st.childSessionId.includes(sessionId)) return true;
-        // Reverse: if stored as short ID, check if it's included in sessionKey
-        if (sessionId.includes(st.childSessionId)) return true;
-        return false;
-      });
-      if (subTask) {
-        return { mainTask, subTask };
-      }
-    }
-    return null;
-  }
+/**
+ * Index of sub-agent sessions bound to sub-tasks
+ *
+ * Sessions are keyed as `agent:<x>:subagent:<uuid>`, but events and callers may
+ * use either the full key or the bare UUID. Both are indexed; a lookup matches
+ * the full key exactly, else the UUID, and never a substring.
+ */
+class SessionRegistry {
+  private byKey: Map<string, SessionMatch[]> = new Map();
+  private byUuid: Map<string, SessionMatch[]> = new Map();
+  private bySubTask: Map<string, SessionKey> = new Map();
 
-  deleteOldTasks(maxAge: number = 7 * 24 * 60 * 60 * 1000): number {
-    const startTime = Date.now();
-    const cutoff = Date.now() - maxAge;
-    const before = this.state.tasks.length;
-    this.state.tasks = this.state.tasks.filter(t => t.createdAt > cutoff);
-    const removed = before - this.state.tasks.length;
+  /**
+   * Split a session ID into its parts
+   * @returns null for an empty ID
+   */
+  static parse(sessionId: string): SessionKey | null {
+    const key = (sessionId || '').trim();
+    if (!key) return null;
+    const match = key.match(/^agent:([^:]+):subagent:([^:]+)$/);
+    return match ? { key, agentId: match[1], uuid: match[2] } : { key, uuid: key };
+  }
 
-    if (removed > 0) {
-      // Backup state file (only when deletion count > 10)
-      if (removed > 10) {
-        try {
-          const backupFile = `${this.tasksFile}.backup`;
-          fs.writeFileSync(backupFile, fs.readFileSync(this.tasksFile));
-          this.logger.info(`Backup created: ${backupFile}`);
-        } catch (backupError) {
-          this.logger.warn(`Failed to create backup: ${backupError}`);
-        }
-      }
+  /**
+   * Re-index a sub-task under its current session (or none)
+   */
+  update(mainTask: MainTask, subTask: SubTask): void {
+    const parsed = subTask.childSessionId ? SessionRegistry.parse(subTask.childSessionId) : null;
+    const indexed = this.bySubTask.get(subTask.id);
+    if (indexed && parsed && indexed.key === parsed.key) return;
+
+    this.remove(subTask.id);
+    if (!parsed) return;
+    const entry = { mainTask, subTask };
+    this.byKey.set(parsed.key, [...(this.byKey.get(parsed.key) || []), entry]);
+    this.byUuid.set(parsed.uuid, [...(this.byUuid.get(parsed.uuid) || []), entry]);
+    this.bySubTask.set(subTask.id, parsed);
+  }
 
-      this.save();
-      const duration = Date.now() - startTime;
-      this.logger.info(`Removed ${removed} old tasks, ${before - removed} preserved (older than ${maxAge / (24 * 60 * 60 * 1000)} days, ${duration}ms)`);
+  /**
+   * Drop a sub-task from the index
+   */
+  remove(subTaskId: string): void {
+    const indexed = this.bySubTask.get(subTaskId);
+    if (!indexed) return;
+    for (const [map, id] of [[this.byKey, indexed.key], [this.byUuid, indexed.uuid]] as const) {
+      const rest = (map.get(id) || []).filter(m => m.subTask.id !== subTaskId);
+      if (rest.length > 0) map.set(id, rest); else map.delete(id);
     }
-
-    return removed;  // Return deletion count
+    this.bySubTask.delete(subTaskId);
   }
 
   /**
-   * Find timed out running sub-tasks
-   * @param timeoutMs Timeout threshold in milliseconds
-   * @returns List of timed out sub-tasks
+   * Find the sub-task bound to a session, rejecting empty and ambiguous IDs
    */
-  getTimeoutSubtasks(timeoutMs: number): Array<{ mainTask: MainTask; subTask: SubTask }> {
-    const now = Date.now();
-    const timeouts: Array<{ mainTask: MainTask; subTask: SubTask }> = [];
+  resolve(sessionId: string): SessionLookup {
+    const parsed = SessionRegistry.parse(sessionId);
+    if (!parsed) {
+      return { success: false, code: 'INVALID_SESSION_ID', error: 'Session ID is empty' };
+    }
 
-    for (const mainTask of this.state.tasks) {
-      for (const subTask of mainTask.subTasks) {
-        if (subTask.status === 'running' && subTask.startTime) {
-          const elapsed = now - subTask.startTime;
-          if (elapsed > timeoutMs) {
-            timeouts.push({ mainTask, subTask });
-          }
-        }
-      }
+    let matches = this.byKey.get(parsed.key) || [];
+    if (matches.length === 0) {
+      // Short ID given for a full key, or the reverse; the agent part must agree when both have one
+      matches = (this.byUuid.get(parsed.uuid) || []).filter(({ subTask }) => {
+        const stored = SessionRegistry.parse(subTask.childSessionId!)!;
+        return !stored.agentId || !parsed.agentId || stored.agentId === parsed.agentId;
+      });
     }
 
-    return timeouts;
+    if (matches.length === 0) {
+      return { success: false, code: 'SESSION_NOT_FOUND', error: `Session ${parsed.key} does not belong to any managed task.` };
+    }
+    if (matches.length > 1) {
+      const ids = matches.map(m => m.subTask.id);
+      return {
+        success: false,
+        code: 'SESSION_AMBIGUOUS',
+        error: `Session ${parsed.key} matches ${ids.length} sub-tasks (${ids.join(', ')}). Use the full session key.`,
+        matches: ids
+      };
+    }
+    return { success: true, match: matches[0] };
   }
 }
 
 // ============================================================================
-// Model Selector
+// Task State Manager
 // ============================================================================
 
-class ModelSelector {
-  private models: ModelConfig[];
-  private modelsConfigPath: string;
-  private logger: any;
+/**
+ * Block the thread for a short while (the state lock is taken synchronously)
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
 
-  constructor(modelsConfigPath: string, logger: any) {
-    this.modelsConfigPath = modelsConfigPath;
-    this.logger = logger;
-    this.models = [];
-    this.load();
+/**
+ * Overwrite an object's fields in place, so references to it stay valid
+ */
+function replaceFields<T extends object>(target: T, source: Partial<T>, keep: string[] = []): void {
+  for (const key of Object.keys(target)) {
+    if (!keep.includes(key) && !(key in source)) delete (target as any)[key];
   }
+  Object.assign(target, source);
+}
 
-  private load(): void {
-    try {
-      if (fs.existsSync(this.modelsConfigPath)) {
-        const content = fs.readFileSync(this.modelsConfigPath, 'utf-8');
-        this.models = JSON.parse(content);
-        this.logger.info(`Loaded ${this.models.length} models from ${this.modelsConfigPath}`);
-      } else {
-        // Create default config
-        this.models = DEFAULT_MODELS;
-        this.save();
-        this.logger.info(`Created default models config at ${this.modelsConfigPath}`);
-      }
-    } catch (error) {
-      this.logger.error(`Failed to load models from ${this.modelsConfigPath}:`, error);
-      this.models = DEFAULT_MODELS;
-    }
+/**
+ * Task state shared by every process using the same state directory
+ *
+ * Each change runs while holding tasks.lock: entries appended by other
+ * processes are applied, the change is made, and the changed task and sub-task
+ * records are appended to tasks.journal.jsonl. Lookups first apply entries
+ * appended by other processes. Once the journal holds STATE_COMPACT_ENTRIES
+ * entries, the whole state is written to tasks.json and the journal starts over.
+ */
+class TaskStateManager {
+  private statePath: string;
+  private tasksFile: string;
+  private journalFile: string;
+  private lockFile: string;
+  private state: TaskState;
+  private logger: any;
+  private sessions: SessionRegistry = new SessionRegistry();
+  private tasksById: Map<string, MainTask> = new Map();
+  private subTasksById: Map<string, SessionMatch> = new Map();
+  // Changed by the running mutate() call, journaled when it returns
+  private dirtyTasks: Set<string> = new Set();
+  private dirtySubTasks: Set<string> = new Set();
+  private deletedTasks: Set<string> = new Set();
+  private mutating = false;
+  // Migrated in memory at load, written to tasks.json by the first change
+  private upgradePending = false;
+  // Snapshot the in-memory state is based on, and how much of the journal has been applied on top
+  private snapshotStamp = '';
+  private journalOffset = 0;
+  private journalEntries = 0;
+
+  constructor(statePath: string, logger: any) {
+    this.statePath = statePath;
+    this.tasksFile = path.join(statePath, 'tasks.json');
+    this.journalFile = path.join(statePath, 'tasks.journal.jsonl');
+    this.lockFile = path.join(statePath, 'tasks.lock');
+    this.logger = logger;
+    this.state = { tasks: [], version: STATE_SCHEMA_VERSION, lastUpdated: Date.now() };
+    this.load();
   }
 
-  private save(): void {
+  /**
+   * Load the state, migrating it to the current schema version (throws for state it cannot use)
+   *
+   * If another process holds the lock for too long, the state is read without it.
+   */
+  private load(): void {
+    const migrate = (): boolean => {
+      this.reload();
+      const version = this.state.version;
+      this.state = migrateDocument<TaskState>(this.tasksFile, this.state, version, STATE_MIGRATIONS, TaskStateSchema, this.logger);
+      if (version === STATE_SCHEMA_VERSION) return false;
+      this.reindex();
+      return true;
+    };
     try {
-      const dir = path.dirname(this.modelsConfigPath);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      fs.writeFileSync(this.modelsConfigPath, JSON.stringify(this.models, null, 2));
-      this.logger.debug(`Saved ${this.models.length} models to ${this.modelsConfigPath}`);
-    } catch (error) {
-      this.logger.error(`Failed to save models to ${this.modelsConfigPath}:`, error);
+      this.withLock(() => {
+        if (migrate()) this.compact();
+      });
+    } catch (error: any) {
+      if (error?.code !== 'ETIMEDOUT') throw error;
+      this.logger.warn(`Loading tasks without ${this.lockFile}: ${error.message}`);
+      this.upgradePending = migrate();
+    }
+    if (this.state.tasks.length > 0) {
+      this.logger.info(`Loaded ${this.state.tasks.length} tasks from ${this.tasksFile} (+${this.journalEntries} journal entries)`);
     }
   }
 
-  list(): ModelConfig[] {
-    return this.models;
+  /**
+   * Identity of the current tasks.json, which changes with every compaction
+   */
+  private readSnapshotStamp(): string {
+    try {
+      const stat = fs.statSync(this.tasksFile);
+      return `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      return '';
+    }
   }
 
-  add(id: string, capabilities: ModelConfig['capabilities']): { success: boolean; error?: string } {
-    // Validate capabilities
-    const validSpeed = ['very_fast', 'fast', 'medium', 'slow'];
-    const validCost = ['very_low', 'low', 'medium', 'high'];
-    const validContext = ['short', 'medium', 'long'];
-    const validReasoning = ['basic', 'medium', 'advanced', 'complex'];
-
-    if (!validSpeed.includes(capabilities.speed)) {
-      return { success: false, error: `Invalid speed value. Must be one of: ${validSpeed.join(', ')}` };
+  /**
+   * Rebuild the state from tasks.json and the whole journal, updating known objects in place
+   */
+  private reload(): void {
+    const stamp = this.readSnapshotStamp();
+    let snapshot: MainTask[] = [];
+    if (stamp) {
+      let content: TaskState | null = null;
+      try {
+        content = JSON.parse(fs.readFileSync(this.tasksFile, 'utf-8'));
+      } catch (error) {
+        this.logger.error(`Failed to load tasks from ${this.tasksFile}:`, error);
+      }
+      if (content) {
+        snapshot = content.tasks;
+        const version = schemaVersion(content.version);
+        if (version > STATE_SCHEMA_VERSION) {
+          throw newerSchemaError(this.tasksFile, version, STATE_SCHEMA_VERSION);
+        }
+        this.state.version = version;
+        this.state.lastUpdated = content.lastUpdated || this.state.lastUpdated;
+      }
     }
-    if (!validCost.includes(capabilities.cost)) {
-      return { success: false, error: `Invalid cost value. Must be one of: ${validCost.join(', ')}` };
+    const journal = this.readJournal(0);
+    const newer = journal.entries.find(entry => entry.version > STATE_SCHEMA_VERSION);
+    if (newer) {
+      throw newerSchemaError(this.journalFile, newer.version, STATE_SCHEMA_VERSION);
     }
-    if (!validContext.includes(capabilities.context_length)) {
-      return { success: false, error: `Invalid context_length value. Must be one of: ${validContext.join(', ')}` };
+
+    const present = new Set<string>();
+    const presentSubTasks = new Set<string>();
+    for (const { subTasks, ...task } of snapshot) {
+      present.add(task.id);
+      this.applyTask(task);
+      for (const subTask of subTasks) {
+        presentSubTasks.add(subTask.id);
+        this.applySubTask(subTask);
+      }
     }
-    if (!validReasoning.includes(capabilities.reasoning)) {
-      return { success: false, error: `Invalid reasoning value. Must be one of: ${validReasoning.join(', ')}` };
+    for (const entry of journal.entries) {
+      if (entry.op === 'task') present.add(entry.task.id);
+      if (entry.op === 'subtask') presentSubTasks.add(entry.subTask.id);
+      this.applyEntry(entry);
     }
 
-    const existing = this.models.findIndex(m => m.id === id);
-    const model: ModelConfig = { id, capabilities };
-
-    if (existing !== -1) {
-      this.models[existing] = model;
-      this.logger.info(`Updated model config for ${id}`);
-    } else {
-      this.models.push(model);
-      this.logger.info(`Added new model config for ${id}`);
+    // Tasks compacted away by another process's cleanup, or records of a change that was rolled back
+    const gone = this.state.tasks.filter(t => !present.has(t.id));
+    for (const mainTask of gone) this.removeTask(mainTask.id);
+    for (const mainTask of this.state.tasks) {
+      const stray = mainTask.subTasks.filter(st => !presentSubTasks.has(st.id));
+      if (stray.length === 0) continue;
+      mainTask.subTasks = mainTask.subTasks.filter(st => presentSubTasks.has(st.id));
+      for (const subTask of stray) {
+        this.subTasksById.delete(subTask.id);
+        this.sessions.remove(subTask.id);
+      }
     }
 
-    this.save();
-    return { success: true };
+    this.snapshotStamp = stamp;
+    this.journalOffset = journal.end;
+    this.journalEntries = journal.entries.length;
   }
 
-  remove(id: string): { success: boolean; error?: string } {
-    const index = this.models.findIndex(m => m.id === id);
-    if (index === -1) {
-      return { success: false, error: `Model ${id} not found` };
+  /**
+   * Apply journal entries appended by other processes since the last refresh
+   * @param locked Whether the caller holds the state lock
+   */
+  private refresh(locked = false): void {
+    // A running mutate() call refreshed under the lock already
+    if (this.mutating) return;
+    try {
+      const stamp = this.readSnapshotStamp();
+      const journal = stamp === this.snapshotStamp ? this.readJournal(this.journalOffset) : null;
+      // A compaction happened before or while reading, so the offset is meaningless
+      if (!journal || journal.size < this.journalOffset || (!locked && this.readSnapshotStamp() !== stamp)) {
+        if (locked) this.reload(); else this.withLock(() => this.reload());
+        return;
+      }
+      for (const entry of journal.entries) this.applyEntry(entry);
+      this.journalOffset = journal.end;
+      this.journalEntries += journal.entries.length;
+    } catch (error) {
+      // Writing on top of state that could not be read would lose it
+      if (locked) throw error;
+      this.logger.warn(`Failed to refresh tasks from ${this.journalFile}: ${error}`);
     }
-    this.models.splice(index, 1);
-    this.save();
-    this.logger.info(`Removed model: ${id}`);
-    return { success: true };
   }
 
-  replaceAll(modelIds: string[]): { success: boolean; error?: string } {
-    if (!modelIds || modelIds.length === 0) {
-      return { success: false, error: 'Model list cannot be empty' };
+  /**
+   * Parse the complete journal lines from a byte offset on (a line still being written is left for later)
+   */
+  private readJournal(from: number): { entries: JournalEntry[]; end: number; size: number } {
+    let fd: number;
+    try {
+      fd = fs.openSync(this.journalFile, 'r');
+    } catch {
+      return { entries: [], end: 0, size: 0 };
     }
-
-    // Create new models list with default capabilities
-    this.models = modelIds.map(id => ({
-      id,
-      capabilities: {
-        speed: 'medium' as const,
-        cost: 'medium' as const,
-        context_length: 'medium' as const,
-        reasoning: 'medium' as const
+    try {
+      const size = fs.fstatSync(fd).size;
+      if (size <= from) return { entries: [], end: from, size };
+
+      const buffer = Buffer.alloc(size - from);
+      fs.readSync(fd, buffer, 0, buffer.length, from);
+      const complete = buffer.lastIndexOf(0x0a) + 1;
+      const entries: JournalEntry[] = [];
+      for (const line of buffer.subarray(0, complete).toString('utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          this.logger.warn(`Skipping malformed journal entry in ${this.journalFile}`);
+        }
       }
-    }));
-
-    this.save();
-    this.logger.info(`Replaced model list with ${modelIds.length} models`);
-    return { success: true };
+      return { entries, end: from + complete, size };
+    } finally {
+      fs.closeSync(fd);
+    }
   }
 
-  reset(): { success: boolean } {
-    this.models = [...DEFAULT_MODELS];
-    this.save();
-    this.logger.info('Reset models to default configuration');
-    return { success: true };
+  private applyEntry(entry: JournalEntry): void {
+    if (entry.op === 'task') this.applyTask(entry.task);
+    else if (entry.op === 'subtask') this.applySubTask(entry.subTask);
+    else if (entry.op === 'delete') this.removeTask(entry.taskId);
   }
 
-  selectModel(
-    taskDifficulty: 'basic' | 'medium' | 'complex',
-    requiredCapabilities: string[],
-    costPreference: 'low' | 'medium' | 'high',
-    preferredModels?: string[]
-  ): ModelConfig | undefined {
-    let candidates = this.models;
-
-    // Filter by user-specified models if provided
-    if (preferredModels && preferredModels.length > 0) {
-      candidates = candidates.filter(m => preferredModels.includes(m.id));
+  private applyTask(task: Omit<MainTask, 'subTasks'>): void {
+    const existing = this.tasksById.get(task.id);
+    if (existing) {
+      replaceFields(existing, task, ['subTasks']);
+    } else {
+      const mainTask: MainTask = { ...task, subTasks: [] };
+      this.state.tasks.push(mainTask);
+      this.tasksById.set(mainTask.id, mainTask);
     }
+  }
 
-    return candidates.find(model => {
-      // Check required capabilities
-      const meetsCapabilities = requiredCapabilities.every(cap => model.capabilities[cap]);
-
-      // Check cost preference
-      const costMap: Record<string, string[]> = {
-        'low': ['very_low', 'low'],
-        'medium': ['low', 'medium'],
-        'high': ['medium', 'high']
-      };
-      const meetsCost = costMap[costPreference]?.includes(model.capabilities.cost);
-
-      // Check reasoning matches task difficulty
-      const reasoningMap: Record<string, string[]> = {
-        'basic': ['basic', 'medium', 'advanced', 'complex'],
-        'medium': ['medium', 'advanced', 'complex'],
-        'complex': ['advanced', 'complex']
-      };
-      const meetsReasoning = reasoningMap[taskDifficulty]?.includes(model.capabilities.reasoning);
+  private applySubTask(subTask: SubTask): void {
+    const existing = this.subTasksById.get(subTask.id);
+    if (existing) {
+      replaceFields(existing.subTask, subTask);
+      this.sessions.update(existing.mainTask, existing.subTask);
+      return;
+    }
+    const mainTask = this.tasksById.get(subTask.mainTaskId);
+    if (mainTask) this.addSubTask(mainTask, subTask);
+  }
 
-      return meetsCapabilities && meetsCost && meetsReasoning;
-    });
+  /**
+   * Rebuild the indexes after the state was replaced
+   */
+  private reindex(): void {
+    this.tasksById.clear();
+    this.subTasksById.clear();
+    this.sessions = new SessionRegistry();
+    for (const mainTask of this.state.tasks) {
+      this.tasksById.set(mainTask.id, mainTask);
+      for (const subTask of mainTask.subTasks) {
+        this.subTasksById.set(subTask.id, { mainTask, subTask });
+        this.sessions.update(mainTask, subTask);
+      }
+    }
   }
-}
 
-// ============================================================================
-// Activity Logger
-// ============================================================================
+  private addSubTask(mainTask: MainTask, subTask: SubTask): void {
+    mainTask.subTasks.push(subTask);
+    this.subTasksById.set(subTask.id, { mainTask, subTask });
+    this.sessions.update(mainTask, subTask);
+  }
 
-class ActivityLogger {
-  private logsPath: string;
-  private logFile: string;
-  private logger: any;
+  private removeTask(taskId: string): void {
+    const mainTask = this.tasksById.get(taskId);
+    if (!mainTask) return;
+    this.state.tasks = this.state.tasks.filter(t => t !== mainTask);
+    this.tasksById.delete(taskId);
+    for (const subTask of mainTask.subTasks) {
+      this.subTasksById.delete(subTask.id);
+      this.sessions.remove(subTask.id);
+    }
+  }
 
-  constructor(logsPath: string, logger: any) {
-    this.logsPath = logsPath;
-    this.logFile = path.join(logsPath, 'task_activity.jsonl');
-    this.logger = logger;
-    this.ensureDir();
+  /**
+   * Run fn holding tasks.lock, breaking a lock whose holder has died or that is older than STATE_LOCK_STALE_MS
+   */
+  private withLock<T>(fn: () => T): T {
+    const deadline = Date.now() + STATE_LOCK_TIMEOUT_MS;
+    let fd: number | undefined;
+    while (fd === undefined) {
+      try {
+        fd = fs.openSync(this.lockFile, 'wx');
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          fs.mkdirSync(this.statePath, { recursive: true });
+        } else if (error.code !== 'EEXIST') {
+          throw error;
+        } else if (this.breakStaleLock()) {
+          continue;
+        } else if (Date.now() > deadline) {
+          throw Object.assign(new Error(`Timed out waiting for ${this.lockFile}`), { code: 'ETIMEDOUT' });
+        } else {
+          sleepSync(5 + Math.random() * 10);
+        }
+      }
+    }
+    let identity = this.lockIdentity(this.lockFile);
+    try {
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, at: Date.now() }));
+      const stat = fs.fstatSync(fd);
+      identity = `${stat.ino}:${stat.mtimeMs}`;
+      return fn();
+    } finally {
+      fs.closeSync(fd);
+      // Leave a lock alone that replaced this one after it was broken as stale
+      if (this.lockIdentity(this.lockFile) === identity) {
+        fs.rmSync(this.lockFile, { force: true });
+      }
+    }
   }
 
-  private ensureDir(): void {
-    if (!fs.existsSync(this.logsPath)) {
-      fs.mkdirSync(this.logsPath, { recursive: true });
+  /**
+   * Identity of a lock file that survives renaming it ('' if it does not exist)
+   */
+  private lockIdentity(file: string): string {
+    try {
+      const stat = fs.statSync(file);
+      return `${stat.ino}:${stat.mtimeMs}`;
+    } catch {
+      return '';
     }
   }
 
-  log(entry: Omit<ActivityLogEntry, 'timestamp' | 'timestamp_iso'>): void {
+  /**
+   * Remove the lock if its holder has died or it is older than STATE_LOCK_STALE_MS
+   *
+   * The lock is renamed aside before it is removed, so of several processes breaking the
+   * same lock only one succeeds, and a lock taken after the check is put back untouched.
+   * @returns true if the lock was broken
+   */
+  private breakStaleLock(): boolean {
+    const identity = this.lockIdentity(this.lockFile);
+    if (!identity || !this.lockIsStale()) return false;
+
+    const aside = `${this.lockFile}.${process.pid}-${Math.random().toString(36).substr(2, 6)}`;
     try {
-      const fullEntry: ActivityLogEntry = {
-        event_type: entry.event_type,
-        task_id: entry.task_id,
-        sub_task_id: entry.sub_task_id,
-        child_session_id: entry.child_session_id,
-        assigned_model: entry.assigned_model,
-        priority: entry.priority,
-        status: entry.status,
-        message: entry.message,
-        error: entry.error,
-        timestamp: Date.now(),
-        timestamp_iso: new Date().toISOString()
-      };
+      fs.renameSync(this.lockFile, aside);
+    } catch {
+      return false;
+    }
+    try {
+      if (this.lockIdentity(aside) === identity) {
+        this.logger.warn(`Breaking stale lock ${this.lockFile}`);
+        return true;
+      }
+      // Not the lock that was checked: hand it back unless the slot was taken again meanwhile
+      try {
+        fs.linkSync(aside, this.lockFile);
+      } catch (error) {
+        this.logger.warn(`Failed to restore lock ${this.lockFile}: ${error}`);
+      }
+      return false;
+    } finally {
+      fs.rmSync(aside, { force: true });
+    }
+  }
 
-      fs.appendFileSync(this.logFile, JSON.stringify(fullEntry) + '\n');
-      this.logger.debug(`Logged activity: ${entry.event_type}`);
-    } catch (error) {
-      this.logger.error(`Failed to log activity: ${error}`);
+  private lockIsStale(): boolean {
+    try {
+      if (Date.now() - fs.statSync(this.lockFile).mtimeMs > STATE_LOCK_STALE_MS) return true;
+      const holder = JSON.parse(fs.readFileSync(this.lockFile, 'utf-8'));
+      if (holder.pid !== process.pid) process.kill(holder.pid, 0);
+      return false;
+    } catch (error: any) {
+      // Gone or half-written locks are retried, a holder that no longer exists is not waited for
+      return error?.code === 'ESRCH';
     }
   }
 
-  logTaskDispatched(taskId: string, description: string, priority: string): void {
-    this.log({
-      event_type: 'task_dispatched',
-      task_id: taskId,
-      message: description,
-      priority,
-      status: 'dispatched'
-    });
+  /**
+   * Mark a task and/or sub-tasks as changed, to be journaled when the running mutate() call returns
+   */
+  private markDirty(mainTask: MainTask | null, ...subTasks: SubTask[]): void {
+    if (mainTask) this.dirtyTasks.add(mainTask.id);
+    for (const subTask of subTasks) this.dirtySubTasks.add(subTask.id);
   }
 
-  logSubagentSpawned(taskId: string, subTaskId: string, sessionId: string, modelId: string): void {
-    this.log({
-      event_type: 'subagent_spawned',
-      task_id: taskId,
-      sub_task_id: subTaskId,
-      child_session_id: sessionId,
-      assigned_model: modelId,
-      status: 'spawned'
+  /**
+   * Make a change on top of the latest state of every process and journal it
+   *
+   * Holding the state lock, entries from other processes are applied, fn runs and
+   * the records it marked dirty are appended. If fn or the append fails, the state
+   * is rebuilt from disk and the error rethrown. Nested calls join the outer one.
+   */
+  private mutate<T>(fn: () => T): T {
+    if (this.mutating) return fn();
+    return this.withLock(() => {
+      this.refresh(true);
+      if (this.upgradePending) {
+        this.compact();
+        this.upgradePending = false;
+      }
+      this.mutating = true;
+      try {
+        const result = fn();
+        this.append();
+        return result;
+      } catch (error) {
+        this.logger.error(`Failed to save tasks to ${this.journalFile}:`, error);
+        this.dirtyTasks.clear();
+        this.dirtySubTasks.clear();
+        this.deletedTasks.clear();
+        this.reload();
+        throw error;
+      } finally {
+        this.mutating = false;
+      }
     });
   }
 
-  logSubagentCompleted(taskId: string, subTaskId: string, sessionId: string): void {
-    this.log({
-      event_type: 'subagent_completed',
-      task_id: taskId,
-      sub_task_id: subTaskId,
-      child_session_id: sessionId,
-      status: 'completed'
-    });
+  /**
+   * Append the records marked dirty to the journal (state lock held)
+   */
+  private append(): void {
+    if (this.dirtyTasks.size === 0 && this.dirtySubTasks.size === 0 && this.deletedTasks.size === 0) return;
+
+    const at = Date.now();
+    const meta = { at, pid: process.pid, version: STATE_SCHEMA_VERSION };
+    const entries: JournalEntry[] = [];
+    for (const taskId of this.deletedTasks) {
+      entries.push({ ...meta, op: 'delete', taskId });
+    }
+    for (const taskId of this.dirtyTasks) {
+      const found = this.tasksById.get(taskId);
+      if (!found) continue;
+      const { subTasks: _, ...task } = found;
+      entries.push({ ...meta, op: 'task', task });
+    }
+    for (const subTaskId of this.dirtySubTasks) {
+      const found = this.subTasksById.get(subTaskId);
+      if (!found) continue;
+      this.sessions.update(found.mainTask, found.subTask);
+      entries.push({ ...meta, op: 'subtask', subTask: found.subTask });
+    }
+
+    // A writer that crashed mid-append left a partial line behind; end it so it is skipped
+    const size = fs.existsSync(this.journalFile) ? fs.statSync(this.journalFile).size : 0;
+    const text = (size > this.journalOffset ? '\n' : '') + entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+    fs.appendFileSync(this.journalFile, text);
+    this.journalOffset = size + Buffer.byteLength(text);
+    this.journalEntries += entries.length;
+    this.state.lastUpdated = at;
+    this.dirtyTasks.clear();
+    this.dirtySubTasks.clear();
+    this.deletedTasks.clear();
+    this.logger.debug(`Journaled ${entries.length} task state changes to ${this.journalFile}`);
+
+    if (this.journalEntries >= STATE_COMPACT_ENTRIES) {
+      this.compact();
+    }
   }
 
-  logSubagentFailed(taskId: string, subTaskId: string, sessionId: string, error: string): void {
-    this.log({
-      event_type: 'subagent_failed',
-      task_id: taskId,
-      sub_task_id: subTaskId,
-      child_session_id: sessionId,
-      status: 'failed',
-      error
-    });
+  /**
+   * Write the whole state to tasks.json and empty the journal (state lock held)
+   */
+  private compact(): void {
+    const tempFile = `${this.tasksFile}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tempFile, this.tasksFile);
+    fs.writeFileSync(this.journalFile, '');
+    this.snapshotStamp = this.readSnapshotStamp();
+    this.journalOffset = 0;
+    this.journalEntries = 0;
+    this.logger.debug(`Compacted ${this.state.tasks.length} tasks into ${this.tasksFile}`);
   }
 
-  logSubagentAborted(taskId: string, subTaskId: string, sessionId: string): void {
-    this.log({
-      event_type: 'subagent_aborted',
-      task_id: taskId,
-      sub_task_id: subTaskId,
-      child_session_id: sessionId,
-      status: 'aborted'
+  private lookupTask(taskId: string): MainTask | null {
+    this.refresh();
+    return this.tasksById.get(taskId) || null;
+  }
+
+  private lookupSubTask(subTaskId: string): SessionMatch | null {
+    this.refresh();
+    return this.subTasksById.get(subTaskId) || null;
+  }
+
+  createMainTask(
+    description: string,
+    priority: 'high' | 'medium' | 'low' = 'medium',
+    dependencyFailurePolicy: MainTask['dependencyFailurePolicy'] = 'skip',
+    maxConcurrency?: number,
+    reduce?: ReduceStage,
+    retryPolicy?: RetryPolicy,
+    budget?: Budget
+  ): MainTask {
+    return this.mutate(() => {
+      const task: MainTask = {
+        id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        description,
+        priority,
+        status: 'pending',
+        createdAt: Date.now(),
+        subTasks: [],
+        dependencyFailurePolicy,
+        maxConcurrency,
+        reduce,
+        retryPolicy,
+        budget
+      };
+      this.state.tasks.push(task);
+      this.tasksById.set(task.id, task);
+      this.markDirty(task);
+      return task;
     });
   }
 
-  logMessageInjected(taskId: string, sessionId: string, message: string): void {
-    this.log({
-      event_type: 'message_injected',
-      task_id: taskId,
-      child_session_id: sessionId,
-      message: message.substring(0, 200) // Truncate for logging
+  createSubTask(
+    mainTaskId: string,
+    taskDescription: string,
+    rolePrompt: string,
+    stepsToExecute: string[],
+    expectedOutcome: string,
+    options: {
+      difficulty?: SubTask['difficulty'];
+      requiredCapabilities?: string[];
+      costPreference?: CostPreference;
+      preferredModels?: string[];
+      modelId?: string;
+      planKey?: string;
+      outcomeSchema?: Record<string, any>;
+    } = {}
+  ): SubTask | null {
+    return this.mutate(() => {
+      const mainTask = this.lookupTask(mainTaskId);
+      if (!mainTask) return null;
+
+      const subTask: SubTask = {
+        id: `${mainTaskId}-sub-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+        mainTaskId,
+        taskDescription,
+        rolePrompt,
+        stepsToExecute,
+        currentStepIndex: 0,
+        status: 'pending',
+        expectedOutcome,
+        difficulty: options.difficulty,
+        requiredCapabilities: options.requiredCapabilities,
+        costPreference: options.costPreference,
+        preferredModels: options.preferredModels,
+        modelId: options.modelId,
+        planKey: options.planKey,
+        outcomeSchema: options.outcomeSchema
+      };
+
+      this.addSubTask(mainTask, subTask);
+      this.markDirty(null, subTask);
+      return subTask;
     });
   }
 
-  logError(context: string, error: any): void {
-    this.log({
-      event_type: 'error',
-      message: context,
-      error: error?.message || String(error)
+  /**
+   * Set dependency edges between sub-tasks of a main task
+   * @param links Map of sub-task ID to the sub-task IDs it depends on
+   */
+  linkDependencies(mainTaskId: string, links: Record<string, string[]>): { success: boolean; error?: string } {
+    return this.mutate(() => {
+      const mainTask = this.lookupTask(mainTaskId);
+      if (!mainTask) {
+        return { success: false, error: `Task ${mainTaskId} not found` };
+      }
+
+      const graph = new Map<string, string[]>();
+      for (const subTask of mainTask.subTasks) {
+        graph.set(subTask.id, links[subTask.id] ?? subTask.dependsOn ?? []);
+      }
+      for (const [subTaskId, deps] of graph) {
+        const unknown = deps.filter(dep => !graph.has(dep));
+        if (unknown.length > 0) {
+          return { success: false, error: `Sub-task ${subTaskId} depends on unknown sub-tasks: ${unknown.join(', ')}` };
+        }
+      }
+      const cycle = findDependencyCycle(graph);
+      if (cycle) {
+        return { success: false, error: `Dependency cycle detected: ${cycle.join(' -> ')}` };
+      }
+
+      for (const subTask of mainTask.subTasks) {
+        const deps = graph.get(subTask.id)!;
+        subTask.dependsOn = deps.length > 0 ? deps : undefined;
+      }
+      this.markDirty(null, ...mainTask.subTasks);
+      return { success: true };
     });
   }
-}
 
-// ============================================================================
-// Progress Manager
-// ============================================================================
+  updateSubTaskStatus(subTaskId: string, status: SubTask['status'], updates: Partial<SubTask> = {}): boolean {
+    return this.mutate(() => {
+      const found = this.lookupSubTask(subTaskId);
+      if (!found) return false;
+
+      const { mainTask, subTask } = found;
+      subTask.status = status;
+      if (status !== 'frozen') {
+        subTask.frozenAt = undefined;
+        subTask.frozenFrom = undefined;
+      }
+      if (status !== 'stalled') {
+        subTask.stalledAt = undefined;
+        subTask.nudgedAt = undefined;
+      }
+      if (status !== 'orphaned') {
+        subTask.orphanedAt = undefined;
+      }
+      Object.assign(subTask, updates);
+      this.markDirty(null, subTask);
 
-/**
- * Progress Report Explanation:
- *
- * Sub-agents report progress through two methods:
- * 1. Write temporary files to /tmp/psam-progress/{subTaskId}.json
- * 2. Send progress messages to main agent using message tool
- *
- * Sub-agent tasks will include progress reporting instructions
- */
+      // Upstream failure propagates to dependents according to task policy
+      if (status !== 'completed' && TERMINAL_SUBTASK_STATUSES.includes(status)) {
+        this.propagateDependencyFailure(mainTask, subTask);
+      }
 
-class ProgressManager {
-  private progressPath: string;
-  private logger: any;
+      // Update main task status if all sub-tasks are done
+      const allDone = mainTask.subTasks.every(st => TERMINAL_SUBTASK_STATUSES.includes(st.status));
+      const anyFailed = mainTask.subTasks.some(st => st.status === 'failed' || st.status === 'invalid_result');
+      const anyAborted = mainTask.subTasks.some(st => st.status === 'aborted');
+      const allCompleted = mainTask.subTasks.every(st => st.status === 'completed');
+
+      // The reduce stage keeps the main task open until the aggregation sub-task is done
+      if (allCompleted && mainTask.reduce && !mainTask.reduce.subTaskId) {
+        this.createReduceSubTask(mainTask);
+      } else if (allDone) {
+        mainTask.status = anyFailed ? 'failed' : (anyAborted ? 'aborted' : 'completed');
+        mainTask.completedAt = Date.now();
+        mainTask.frozenAt = undefined;
+        mainTask.frozenReason = undefined;
+        this.markDirty(mainTask);
+      }
 
-  constructor(progressPath: string, logger: any) {
-    this.progressPath = progressPath;
-    this.logger = logger;
-    this.ensureDir();
+      return true;
+    });
   }
 
-  private ensureDir(): void {
-    if (!fs.existsSync(this.progressPath)) {
-      fs.mkdirSync(this.progressPath, { recursive: true });
+  /**
+   * Create the aggregation sub-task with its siblings' collected results
+   */
+  private createReduceSubTask(mainTask: MainTask): SubTask | null {
+    const reduce = mainTask.reduce!;
+    const siblings = mainTask.subTasks.filter(st => st.kind !== 'reduce');
+
+    const subTask = this.createSubTask(
+      mainTask.id,
+      buildReduceDescription(reduce.description, siblings),
+      reduce.rolePrompt || REDUCE_ROLE_PROMPT,
+      REDUCE_STEPS,
+      reduce.expectedOutcome || 'One merged deliverable combining all sub-task results',
+      {
+        difficulty: reduce.difficulty,
+        requiredCapabilities: reduce.requiredCapabilities,
+        costPreference: reduce.costPreference,
+        modelId: reduce.modelId,
+        planKey: 'reduce',
+        outcomeSchema: reduce.outcomeSchema
+      }
+    );
+    if (!subTask) return null;
+
+    subTask.kind = 'reduce';
+    subTask.dependsOn = siblings.map(st => st.id);
+    reduce.subTaskId = subTask.id;
+    this.logger.info(`Created reduce sub-task ${subTask.id} for ${mainTask.id} (${siblings.length} results)`);
+    this.markDirty(mainTask, subTask);
+    return subTask;
+  }
+
+  /**
+   * Skip or fail pending sub-tasks that (transitively) depend on a failed sub-task
+   */
+  private propagateDependencyFailure(mainTask: MainTask, failed: SubTask): void {
+    const policy = mainTask.dependencyFailurePolicy || 'skip';
+    for (const dependent of mainTask.subTasks) {
+      const waiting = dependent.status === 'pending' || (dependent.status === 'frozen' && dependent.frozenFrom === 'pending');
+      if (!waiting || !dependent.dependsOn?.includes(failed.id)) continue;
+
+      dependent.status = policy === 'fail' ? 'failed' : 'skipped';
+      dependent.frozenAt = undefined;
+      dependent.frozenFrom = undefined;
+      dependent.endTime = Date.now();
+      dependent.errorLog = `Upstream sub-task ${failed.id} ended with status ${failed.status}`;
+      this.markDirty(null, dependent);
+      this.propagateDependencyFailure(mainTask, dependent);
     }
   }
 
   /**
-   * Generate progress reporting instructions for sub-agent tasks
+   * Sub-tasks whose dependencies are all completed and which are not bound to a session yet
    */
-  generateProgressInstructions(subTaskId: string, mainTaskId: string, totalSteps: number, progressPath: string): string {
-    return `
-## Progress Report [Required - Part of Task]
+  getReadySubTasks(mainTaskId: string): SubTask[] {
+    const mainTask = this.lookupTask(mainTaskId);
+    if (!mainTask) return [];
 
-This is a **core component** of your task, not an optional step.
-You **must** write to the progress file immediately after completing each step.
-
-### Progress File Path
-\`${progressPath}/${subTaskId}.json\`
-
-### How to Write (Using Write Tool)
-
-**When starting task**:
-\`\`\`
-Write({
-  file_path: "${progressPath}/${subTaskId}.json",
-  content: JSON.stringify({
-    subTaskId: "${subTaskId}",
-    mainTaskId: "${mainTaskId}",
-    currentStep: 1,
-    totalSteps: ${totalSteps},
-    status: "in_progress",
-    message: "Starting task execution...",
-    timestamp: Date.now(),
-    percentage: 0
-  }, null, 2)
-})
-\`\`\`
-
-**After completing each step** (e.g., step 2):
-\`\`\`
-Write({
-  file_path: "${progressPath}/${subTaskId}.json",
-  content: JSON.stringify({
-    subTaskId: "${subTaskId}",
-    mainTaskId: "${mainTaskId}",
-    currentStep: 2,
-    totalSteps: ${totalSteps},
-    status: "in_progress",
-    message: "Describe the step you just completed...",
-    timestamp: Date.now(),
-    percentage: Math.round(2 / ${totalSteps} * 100)
-  }, null, 2)
-})
-\`\`\`
-
-**When task completes**:
-\`\`\`
-Write({
-  file_path: "${progressPath}/${subTaskId}.json",
-  content: JSON.stringify({
-    subTaskId: "${subTaskId}",
-    mainTaskId: "${mainTaskId}",
-    currentStep: ${totalSteps},
-    totalSteps: ${totalSteps},
-    status: "completed",
-    message: "Task completed! Result: ...",
-    timestamp: Date.now(),
-    percentage: 100
-  }, null, 2)
-})
-\`\`\`
-
-**When task fails**:
-\`\`\`
-Write({
-  file_path: "${progressPath}/${subTaskId}.json",
-  content: JSON.stringify({
-    subTaskId: "${subTaskId}",
-    mainTaskId: "${mainTaskId}",
-    currentStep: X,
-    totalSteps: ${totalSteps},
-    status: "failed",
-    message: "Failure reason: ...",
-    timestamp: Date.now(),
-    percentage: Math.round(X / ${totalSteps} * 100)
-  }, null, 2)
-})
-\`\`\`
-
-### Key Requirements
-1. **Write immediately after each step completes**, don't wait until all steps finish
-2. **Use JSON.stringify** to format content
-3. **Update currentStep and percentage**
-4. If stuck or failed, also write to progress file explaining the situation
-`;
+    const now = Date.now();
+    return mainTask.subTasks.filter(st =>
+      st.status === 'pending' &&
+      !st.childSessionId &&
+      (!st.retryAfter || st.retryAfter <= now) &&
+      (st.dependsOn || []).every(depId =>
+        mainTask.subTasks.find(dep => dep.id === depId)?.status === 'completed'
+      )
+    );
   }
 
   /**
-   * Read sub-agent progress
+   * Append the outcome of the sub-task's current attempt to its history
+   * @returns Number of finished attempts, or 0 if the sub-task was not found
    */
-  readProgress(subTaskId: string): ProgressReport | null {
-    try {
-      const filePath = path.join(this.progressPath, `${subTaskId}.json`);
-      if (fs.existsSync(filePath)) {
-        const content = fs.readFileSync(filePath, 'utf-8');
-        return JSON.parse(content);
+  recordAttempt(subTaskId: string, status: SubTask['status'], error?: string): number {
+    return this.mutate(() => {
+      const subTask = this.findSubTask(subTaskId);
+      if (!subTask) return 0;
+
+      const attempts = subTask.attempts || [];
+      attempts.push({
+        attempt: attempts.length + 1,
+        modelId: subTask.modelId,
+        sessionId: subTask.childSessionId,
+        status,
+        error,
+        startedAt: subTask.startTime,
+        endedAt: Date.now(),
+        frozenMs: subTask.frozenMs
+      });
+      subTask.attempts = attempts;
+      this.markDirty(null, subTask);
+      return attempts.length;
+    });
+  }
+
+  /**
+   * Append a progress report to the sub-task's timeline if it moves to a new step or status
+   *
+   * Also sets currentStepIndex and re-derives stepDurations for the current attempt.
+   * @returns true if an entry was appended
+   */
+  recordProgress(subTaskId: string, report: Pick<ProgressReport, 'currentStep' | 'totalSteps' | 'status' | 'message' | 'timestamp'>): boolean {
+    return this.mutate(() => {
+      const subTask = this.findSubTask(subTaskId);
+      if (!subTask || !Number.isFinite(report.currentStep)) return false;
+
+      const attempt = (subTask.attempts?.length || 0) + 1;
+      const timeline = subTask.timeline || [];
+      const last = timeline[timeline.length - 1];
+      if (last && last.attempt === attempt && last.step === report.currentStep && last.status === report.status) {
+        return false;
       }
-    } catch (error) {
-      this.logger.error(`Failed to read progress for ${subTaskId}:`, error);
-    }
-    return null;
+
+      // The report's own time, so a report read late still lands when it was made (kept in order)
+      const now = Date.now();
+      const at = Number.isFinite(report.timestamp) && report.timestamp > 0
+        ? Math.min(Math.max(report.timestamp, last?.at || 0), now)
+        : now;
+      timeline.push({
+        at,
+        attempt,
+        step: report.currentStep,
+        totalSteps: report.totalSteps,
+        status: report.status,
+        message: report.message ? report.message.substring(0, 200) : undefined
+      });
+      subTask.timeline = timeline;
+      subTask.currentStepIndex = Math.max(0, report.currentStep - 1);
+      subTask.stepDurations = deriveStepDurations(
+        timeline.filter(entry => entry.attempt === attempt && (!subTask.startTime || entry.at >= subTask.startTime)),
+        subTask.startTime
+      );
+      this.markDirty(null, subTask);
+      return true;
+    });
   }
 
   /**
-   * Read all progress reports
+   * Put a failed sub-task back in the queue for another attempt
    */
-  readAllProgress(): ProgressReport[] {
-    const reports: ProgressReport[] = [];
-    try {
-      if (!fs.existsSync(this.progressPath)) return reports;
+  requeueSubTask(subTaskId: string, modelId: string | undefined, retryAfter: number, errorLog?: string): boolean {
+    return this.updateSubTaskStatus(subTaskId, 'pending', {
+      modelId,
+      retryAfter,
+      errorLog,
+      childSessionId: undefined,
+      releasedAt: undefined,
+      startTime: undefined,
+      endTime: undefined,
+      actualDuration: undefined,
+      currentStepIndex: 0,
+      stepDurations: undefined,
+      result: undefined,
+      resultPath: undefined,
+      validationErrors: undefined,
+      attemptUsage: undefined,
+      frozenMs: undefined
+    });
+  }
 
-      const files = fs.readdirSync(this.progressPath).filter(f => f.endsWith('.json'));
-      for (const file of files) {
-        try {
-          const content = fs.readFileSync(path.join(this.progressPath, file), 'utf-8');
-          reports.push(JSON.parse(content));
-        } catch (e) {
-          // Skip invalid files
+  /**
+   * Freeze a pending, running or stalled sub-task; withdrawn spawn instructions are released again on thaw
+   */
+  freezeSubTask(subTaskId: string): { success: boolean; error?: string } {
+    return this.mutate(() => {
+      const subTask = this.findSubTask(subTaskId);
+      if (!subTask) {
+        return { success: false, error: `Sub-task ${subTaskId} not found` };
+      }
+      if (subTask.status !== 'pending' && !LIVE_SUBTASK_STATUSES.includes(subTask.status)) {
+        return { success: false, error: `Sub-task ${subTaskId} is ${subTask.status} and cannot be paused` };
+      }
+
+      // A stalled sub-task is watched afresh after resuming
+      subTask.frozenFrom = subTask.status === 'pending' ? 'pending' : 'running';
+      subTask.stalledAt = undefined;
+      subTask.nudgedAt = undefined;
+      subTask.status = 'frozen';
+      subTask.frozenAt = Date.now();
+      if (!subTask.childSessionId) {
+        subTask.releasedAt = undefined;
+      }
+      this.markDirty(null, subTask);
+      return { success: true };
+    });
+  }
+
+  /**
+   * Restore a frozen sub-task to its previous status, accumulating the frozen time
+   */
+  thawSubTask(subTaskId: string): { success: boolean; error?: string } {
+    return this.mutate(() => {
+      const subTask = this.findSubTask(subTaskId);
+      if (!subTask) {
+        return { success: false, error: `Sub-task ${subTaskId} not found` };
+      }
+      if (subTask.status !== 'frozen') {
+        return { success: false, error: `Sub-task ${subTaskId} is ${subTask.status}, not paused` };
+      }
+
+      subTask.status = subTask.frozenFrom || 'pending';
+      subTask.frozenMs = (subTask.frozenMs || 0) + (Date.now() - (subTask.frozenAt || Date.now()));
+      subTask.frozenAt = undefined;
+      subTask.frozenFrom = undefined;
+      subTask.resumedAt = Date.now();
+      this.markDirty(null, subTask);
+      return { success: true };
+    });
+  }
+
+  /**
+   * Mark a main task paused (or resumed) as a whole
+   */
+  setMainTaskFrozen(taskId: string, frozen: boolean, reason?: string): boolean {
+    return this.mutate(() => {
+      const mainTask = this.lookupTask(taskId);
+      if (!mainTask) return false;
+
+      if (frozen) {
+        mainTask.status = 'frozen';
+        mainTask.frozenAt = Date.now();
+        mainTask.frozenReason = reason;
+      } else {
+        mainTask.status = mainTask.subTasks.some(st => LIVE_SUBTASK_STATUSES.includes(st.status)) ? 'running' : 'pending';
+        mainTask.frozenAt = undefined;
+        mainTask.frozenReason = undefined;
+      }
+      this.markDirty(mainTask);
+      return true;
+    });
+  }
+
+  /**
+   * Abort every unfinished sub-task of a main task (queued retries and the reduce stage included) and close the task
+   * @returns The sub-tasks that were cancelled, or null if the task was not found
+   */
+  cancelTask(taskId: string, reason: string): SubTask[] | null {
+    return this.mutate(() => {
+      const mainTask = this.lookupTask(taskId);
+      if (!mainTask) return null;
+
+      const now = Date.now();
+      const cancelled = mainTask.subTasks.filter(st => !TERMINAL_SUBTASK_STATUSES.includes(st.status));
+      for (const subTask of cancelled) {
+        if (subTask.childSessionId) {
+          this.recordAttempt(subTask.id, 'aborted', reason);
         }
+        subTask.actualDuration = subTask.startTime ? activeDuration(subTask, now) : undefined;
+        subTask.status = 'aborted';
+        subTask.endTime = now;
+        subTask.errorLog = reason;
+        subTask.retryAfter = undefined;
+        subTask.frozenAt = undefined;
+        subTask.frozenFrom = undefined;
       }
-    } catch (error) {
-      this.logger.error('Failed to read all progress:', error);
-    }
-    return reports;
+
+      mainTask.status = 'aborted';
+      mainTask.completedAt = now;
+      mainTask.error = reason;
+      mainTask.frozenAt = undefined;
+      mainTask.frozenReason = undefined;
+      this.markDirty(mainTask, ...cancelled);
+      return cancelled;
+    });
   }
 
   /**
-   * Clean up completed progress files (enhanced version)
-   * @returns Number of files cleaned
+   * Apply a cumulative usage report for a sub-task's current attempt and roll it up to its main task
+   * @returns The main task, or null if the sub-task was not found
    */
-  cleanupCompletedProgress(): number {
-    let cleaned = 0;
-    let skipped = 0;
-    const startTime = Date.now();
+  recordUsage(subTaskId: string, reported: Usage): MainTask | null {
+    return this.mutate(() => {
+      const found = this.lookupSubTask(subTaskId);
+      if (!found) return null;
+
+      // Reports are cumulative per session, so only the growth since the last report is new
+      const { mainTask, subTask } = found;
+      const previous = subTask.attemptUsage || { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+      const delta: Usage = {
+        inputTokens: Math.max(0, reported.inputTokens - previous.inputTokens),
+        outputTokens: Math.max(0, reported.outputTokens - previous.outputTokens),
+        costUsd: Math.max(0, reported.costUsd - previous.costUsd)
+      };
+      subTask.attemptUsage = reported;
+      subTask.usage = addUsage(subTask.usage, delta);
+      mainTask.usage = mainTask.subTasks.reduce<Usage | undefined>((sum, st) => st.usage ? addUsage(sum, st.usage) : sum, undefined);
+      this.markDirty(mainTask, subTask);
+      return mainTask;
+    });
+  }
 
-    try {
-      if (!fs.existsSync(this.progressPath)) {
-        this.logger.debug('Progress path does not exist, nothing to cleanup');
-        return 0;
+  /**
+   * Record that a main task's spend crossed its budget (first crossing only)
+   * @returns true if this call set the flag
+   */
+  markBudgetExceeded(taskId: string): boolean {
+    return this.mutate(() => {
+      const mainTask = this.lookupTask(taskId);
+      if (!mainTask || mainTask.budgetExceededAt) return false;
+      mainTask.budgetExceededAt = Date.now();
+      this.markDirty(mainTask);
+      return true;
+    });
+  }
+
+  /**
+   * Set or clear the reason the last release wave was held back by projected spend
+   */
+  setBudgetHold(taskId: string, reason: string | undefined): void {
+    this.mutate(() => {
+      const mainTask = this.lookupTask(taskId);
+      if (!mainTask || mainTask.budgetHold === reason) return;
+      mainTask.budgetHold = reason;
+      this.markDirty(mainTask);
+    });
+  }
+
+  /**
+   * Sub-tasks that are running or stalled (or paused with a live session), or whose spawn instructions are out but not yet bound
+   * @param releaseTimeoutMs Spawn instructions left unanswered for longer than this no longer count (0 = always count)
+   */
+  getInFlightSubTasks(mainTaskId: string, releaseTimeoutMs: number = 0, now: number = Date.now()): SubTask[] {
+    const mainTask = this.lookupTask(mainTaskId);
+    if (!mainTask) return [];
+
+    return mainTask.subTasks.filter(st =>
+      LIVE_SUBTASK_STATUSES.includes(st.status) ||
+      (st.status === 'frozen' && !!st.childSessionId) ||
+      (st.status === 'pending' && !!st.releasedAt && !st.childSessionId &&
+        (!releaseTimeoutMs || now - st.releasedAt <= releaseTimeoutMs))
+    );
+  }
+
+  /**
+   * Record that spawn instructions were surfaced for the given sub-tasks
+   */
+  markReleased(subTaskIds: string[]): void {
+    if (subTaskIds.length === 0) return;
+    this.mutate(() => {
+      const now = Date.now();
+      for (const subTaskId of subTaskIds) {
+        const subTask = this.findSubTask(subTaskId);
+        if (subTask && !subTask.releasedAt) {
+          subTask.releasedAt = now;
+          this.markDirty(null, subTask);
+        }
       }
+    });
+  }
 
-      const files = fs.readdirSync(this.progressPath).filter(f => f.endsWith('.json'));
-      this.logger.debug(`Checking ${files.length} progress files for cleanup`);
+  /**
+   * Detach a sub-task from its session, keeping the session ID in its history
+   *
+   * The sub-task goes back to pending with its spawn instructions still out,
+   * so it can be bound to a new session (a paused sub-task stays paused).
+   */
+  unbindSession(subTaskId: string): { success: boolean; error?: string; previousSessionId?: string } {
+    return this.mutate(() => {
+      const subTask = this.findSubTask(subTaskId);
+      if (!subTask) {
+        return { success: false, error: `Sub-task ${subTaskId} not found` };
+      }
+      if (!subTask.childSessionId) {
+        return { success: false, error: `Sub-task ${subTaskId} is not bound to a session` };
+      }
+      if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) {
+        return { success: false, error: `Sub-task ${subTaskId} is already ${subTask.status}` };
+      }
 
-      for (const file of files) {
-        const filePath = path.join(this.progressPath, file);
-        try {
-          // Validate JSON format and status field
-          const content = fs.readFileSync(filePath, 'utf-8');
-          const report = JSON.parse(content) as ProgressReport;
+      const previousSessionId = subTask.childSessionId;
+      subTask.previousSessionIds = [...(subTask.previousSessionIds || []), previousSessionId];
+      subTask.childSessionId = undefined;
+      subTask.startTime = undefined;
+      subTask.currentStepIndex = 0;
+      subTask.stepDurations = undefined;
+      subTask.attemptUsage = undefined;
+      subTask.frozenMs = undefined;
+      if (subTask.status === 'frozen') {
+        subTask.frozenFrom = 'pending';
+        subTask.releasedAt = undefined;
+      } else {
+        subTask.status = 'pending';
+        subTask.releasedAt = subTask.releasedAt || Date.now();
+      }
+      this.markDirty(null, subTask);
+      return { success: true, previousSessionId };
+    });
+  }
 
-          // Check status field exists
-          if (!report.status) {
-            this.logger.warn(`Progress file missing status field: ${file}, skipping`);
-            skipped++;
-            continue;
-          }
+  updateMainTaskStatus(taskId: string, status: MainTask['status'], error?: string): boolean {
+    return this.mutate(() => {
+      const mainTask = this.lookupTask(taskId);
+      if (!mainTask) return false;
 
-          // Only clean completed/failed/aborted files
-          if (report.status === 'completed' || report.status === 'failed' || report.status === 'aborted') {
-            fs.unlinkSync(filePath);
-            cleaned++;
-            this.logger.debug(`Cleaned progress file: ${file} (status: ${report.status})`);
+      mainTask.status = status;
+      if (error) mainTask.error = error;
+      if (status === 'completed' || status === 'failed' || status === 'aborted') {
+        mainTask.completedAt = Date.now();
+      }
+      this.markDirty(mainTask);
+      return true;
+    });
+  }
+
+  findSubTask(subTaskId: string): SubTask | null {
+    return this.lookupSubTask(subTaskId)?.subTask || null;
+  }
+
+  getTask(taskId: string): MainTask | null {
+    return this.lookupTask(taskId);
+  }
+
+  getAllTasks(): MainTask[] {
+    this.refresh();
+    return this.state.tasks;
+  }
+
+  /**
+   * Find the sub-task bound to a session (full key or bare UUID, see SessionRegistry)
+   */
+  resolveSession(sessionId: string): SessionLookup {
+    this.refresh();
+    return this.sessions.resolve(sessionId);
+  }
+
+  deleteOldTasks(maxAge: number = 7 * 24 * 60 * 60 * 1000): number {
+    const startTime = Date.now();
+    const cutoff = Date.now() - maxAge;
+    this.refresh();
+    if (!this.state.tasks.some(t => t.createdAt <= cutoff)) return 0;
+    return this.mutate(() => {
+      const before = this.state.tasks.length;
+      const expired = this.state.tasks.filter(t => t.createdAt <= cutoff);
+      const removed = expired.length;
+
+      if (removed > 0) {
+        // Backup state (only when deletion count > 10)
+        if (removed > 10) {
+          try {
+            const backupFile = `${this.tasksFile}.backup`;
+            fs.writeFileSync(backupFile, JSON.stringify(this.state, null, 2));
+            this.logger.info(`Backup created: ${backupFile}`);
+          } catch (backupError) {
+            this.logger.warn(`Failed to create backup: ${backupError}`);
           }
-        } catch (parseError) {
-          // Skip corrupted files and log warning
-          this.logger.warn(`Invalid progress file ${file}: ${parseError instanceof Error ? parseError.message : String(parseError)}, skipping`);
-          skipped++;
         }
+
+        for (const mainTask of expired) {
+          this.removeTask(mainTask.id);
+          this.deletedTasks.add(mainTask.id);
+        }
+        const duration = Date.now() - startTime;
+        this.logger.info(`Removed ${removed} old tasks, ${before - removed} preserved (older than ${maxAge / (24 * 60 * 60 * 1000)} days, ${duration}ms)`);
       }
 
-      const duration = Date.now() - startTime;
-      // Log cleanup details
-      this.logger.info(`Progress cleanup: ${cleaned} removed, ${skipped} skipped, ${files.length - cleaned - skipped} preserved (${duration}ms)`);
-    } catch (error) {
-      this.logger.error('Failed to cleanup progress files:', error);
+      return removed;  // Return deletion count
+    });
+  }
+
+  /**
+   * Find timed out running or stalled sub-tasks
+   * @param timeoutMs Timeout threshold in milliseconds
+   * @returns List of timed out sub-tasks
+   */
+  getTimeoutSubtasks(timeoutMs: number): Array<{ mainTask: MainTask; subTask: SubTask }> {
+    const now = Date.now();
+    const timeouts: Array<{ mainTask: MainTask; subTask: SubTask }> = [];
+
+    this.refresh();
+    for (const mainTask of this.state.tasks) {
+      for (const subTask of mainTask.subTasks) {
+        if (LIVE_SUBTASK_STATUSES.includes(subTask.status) && subTask.startTime) {
+          const elapsed = activeDuration(subTask, now);
+          if (elapsed > timeoutMs) {
+            timeouts.push({ mainTask, subTask });
+          }
+        }
+      }
     }
 
-    return cleaned;
+    return timeouts;
   }
 }
 
 // ============================================================================
-// API Capability Detector
+// Model Selector
 // ============================================================================
 
-/**
- * Note: The OpenClaw Plugin SDK does not expose internal tools like
- * sessions_spawn, sessions_send, etc. to plugins at registration time.
- * Plugin tools can only return results - they cannot directly call other tools.
- *
- * The orchestrate tool works around this by returning instructions for the
- * calling agent to execute sessions_spawn itself.
- */
-function detectApiCapabilities(): ApiCapabilities {
-  return {
-    sessions_spawn: false,
-    sessions_send: false,
-    sessions_history: false,
-    process_kill: false
-  };
-}
-
+class ModelSelector {
+  private models: ModelConfig[];
+  private modelsConfigPath: string;
+  private logger: any;
+  private stats?: ModelStats;
+  // Why models.json could not be used; it is not written until fixed by hand
+  private loadError?: string;
+
+  constructor(modelsConfigPath: string, logger: any, stats?: ModelStats) {
+    this.modelsConfigPath = modelsConfigPath;
+    this.logger = logger;
+    this.stats = stats;
+    this.models = [];
+    this.load();
+  }
+
+  /**
+   * Load models.json, migrating it to the current schema version
+   *
+   * A file that cannot be parsed, fails validation or is newer than the plugin is
+   * left untouched and the default models are used until it is fixed.
+   */
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.modelsConfigPath)) {
+        // Create default config
+        this.models = structuredClone(DEFAULT_MODELS);
+        this.save();
+        this.logger.info(`Created default models config at ${this.modelsConfigPath}`);
+        return;
+      }
+      const content = JSON.parse(fs.readFileSync(this.modelsConfigPath, 'utf-8'));
+
+      // Before versioning the file was a bare list of models
+      const version = Array.isArray(content) ? 1 : schemaVersion(content?.version);
+      const file = migrateDocument<ModelsFile>(this.modelsConfigPath, content, version, MODELS_MIGRATIONS, ModelsFileSchema, this.logger);
+      this.models = file.models;
+      if (version < MODELS_SCHEMA_VERSION) {
+        this.save();
+      }
+      this.logger.info(`Loaded ${this.models.length} models from ${this.modelsConfigPath}`);
+    } catch (error) {
+      this.logger.error(`Failed to load models from ${this.modelsConfigPath}, using the default models:`, error);
+      this.models = structuredClone(DEFAULT_MODELS);
+      this.loadError = `Models config could not be loaded (${error instanceof Error ? error.message : String(error)}); fix or remove ${this.modelsConfigPath} before changing models`;
+    }
+  }
+
+  private save(): void {
+    if (this.loadError) {
+      this.logger.warn(`Not saving models: ${this.loadError}`);
+      return;
+    }
+    try {
+      const dir = path.dirname(this.modelsConfigPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const file: ModelsFile = { version: MODELS_SCHEMA_VERSION, models: this.models };
+      fs.writeFileSync(this.modelsConfigPath, JSON.stringify(file, null, 2));
+      this.logger.debug(`Saved ${this.models.length} models to ${this.modelsConfigPath}`);
+    } catch (error) {
+      this.logger.error(`Failed to save models to ${this.modelsConfigPath}:`, error);
+    }
+  }
+
+  list(): ModelConfig[] {
+    return this.models;
+  }
+
+  add(id: string, capabilities: ModelConfig['capabilities'], pricing?: ModelPricing): { success: boolean; error?: string } {
+    if (this.loadError) {
+      return { success: false, error: this.loadError };
+    }
+
+    // Validate capabilities
+    const validSpeed = ['very_fast', 'fast', 'medium', 'slow'];
+    const validCost = ['very_low', 'low', 'medium', 'high'];
+    const validContext = ['short', 'medium', 'long'];
+    const validReasoning = ['basic', 'medium', 'advanced', 'complex'];
+
+    if (!validSpeed.includes(capabilities.speed)) {
+      return { success: false, error: `Invalid speed value. Must be one of: ${validSpeed.join(', ')}` };
+    }
+    if (!validCost.includes(capabilities.cost)) {
+      return { success: false, error: `Invalid cost value. Must be one of: ${validCost.join(', ')}` };
+    }
+    if (!validContext.includes(capabilities.context_length)) {
+      return { success: false, error: `Invalid context_length value. Must be one of: ${validContext.join(', ')}` };
+    }
+    if (!validReasoning.includes(capabilities.reasoning)) {
+      return { success: false, error: `Invalid reasoning value. Must be one of: ${validReasoning.join(', ')}` };
+    }
+    if (pricing && !(pricing.input_per_mtok >= 0 && pricing.output_per_mtok >= 0)) {
+      return { success: false, error: `Invalid pricing. input_per_mtok and output_per_mtok must be non-negative numbers` };
+    }
+
+    const existing = this.models.findIndex(m => m.id === id);
+    const model: ModelConfig = { id, capabilities, pricing };
+
+    if (existing !== -1) {
+      this.models[existing] = model;
+      this.logger.info(`Updated model config for ${id}`);
+    } else {
+      this.models.push(model);
+      this.logger.info(`Added new model config for ${id}`);
+    }
+
+    this.save();
+    return { success: true };
+  }
+
+  remove(id: string): { success: boolean; error?: string } {
+    if (this.loadError) {
+      return { success: false, error: this.loadError };
+    }
+    const index = this.models.findIndex(m => m.id === id);
+    if (index === -1) {
+      return { success: false, error: `Model ${id} not found` };
+    }
+    this.models.splice(index, 1);
+    this.save();
+    this.logger.info(`Removed model: ${id}`);
+    return { success: true };
+  }
+
+  replaceAll(modelIds: string[]): { success: boolean; error?: string } {
+    if (this.loadError) {
+      return { success: false, error: this.loadError };
+    }
+    if (!modelIds || modelIds.length === 0) {
+      return { success: false, error: 'Model list cannot be empty' };
+    }
+
+    // Create new models list with default capabilities
+    this.models = modelIds.map(id => ({
+      id,
+      capabilities: {
+        speed: 'medium' as const,
+        cost: 'medium' as const,
+        context_length: 'medium' as const,
+        reasoning: 'medium' as const
+      }
+    }));
+
+    this.save();
+    this.logger.info(`Replaced model list with ${modelIds.length} models`);
+    return { success: true };
+  }
+
+  reset(): { success: boolean; error?: string } {
+    if (this.loadError) {
+      return { success: false, error: this.loadError };
+    }
+    this.models = structuredClone(DEFAULT_MODELS);
+    this.save();
+    this.logger.info('Reset models to default configuration');
+    return { success: true };
+  }
+
+  /**
+   * Pricing of a model, falling back to the built-in defaults for known models
+   */
+  getPricing(modelId: string | undefined): ModelPricing | undefined {
+    if (!modelId) return undefined;
+    return this.models.find(m => m.id === modelId)?.pricing
+      || DEFAULT_MODELS.find(m => m.id === modelId)?.pricing;
+  }
+
+  selectModel(
+    taskDifficulty: 'basic' | 'medium' | 'complex',
+    requiredCapabilities: string[],
+    costPreference: CostPreference,
+    preferredModels?: string[]
+  ): ModelConfig | undefined {
+    const ranking = this.rankModels({ difficulty: taskDifficulty, requiredCapabilities, costPreference, preferredModels });
+    const best = ranking.find(r => r.eligible);
+    if (best) return best.model;
+
+    // Nothing passes the strict filters: degrade to the nearest match
+    if (ranking.length > 0) {
+      this.logger.warn(`No model fully matches difficulty=${taskDifficulty}, cost=${costPreference}, capabilities=${requiredCapabilities.join(',')}; using nearest match ${ranking[0].model.id}`);
+      return ranking[0].model;
+    }
+    return undefined;
+  }
+
+  /**
+   * Score every candidate model against a request
+   *
+   * Eligible models (passing the capability, cost and reasoning filters) come
+   * first, then the rest; each group is ordered by score, then by list order.
+   * Models outside preferredModels are not ranked at all, unless none of the
+   * hints is configured, in which case every model is ranked instead. Only the
+   * top `limit` models are returned.
+   */
+  rankModels(request: ModelRequest): RankedModel[] {
+    let candidates = this.models;
+    if (request.preferredModels && request.preferredModels.length > 0) {
+      const preferred = candidates.filter(m => request.preferredModels!.includes(m.id));
+      if (preferred.length > 0) candidates = preferred;
+    }
+
+    const ranked = candidates.map((model, index) => ({ ...this.scoreModel(model, request), index }));
+    ranked.sort((a, b) =>
+      Number(b.eligible) - Number(a.eligible) || b.score - a.score || a.index - b.index
+    );
+    return ranked
+      .slice(0, Math.max(1, request.limit ?? MODEL_RANKING_LIMIT))
+      .map(({ index, ...rest }) => rest);
+  }
+
+  private scoreModel(model: ModelConfig, request: ModelRequest): RankedModel {
+    const caps = model.capabilities;
+    const reasons: string[] = [];
+    const rejections: string[] = [];
+    let score = 0;
+
+    // Reasoning: enough for the difficulty, with a small penalty for overkill
+    const reasoning = REASONING_LEVELS.indexOf(caps.reasoning);
+    const minReasoning = REASONING_LEVELS.indexOf(REASONING_BY_DIFFICULTY[request.difficulty]?.[0] ?? 'medium');
+    if (reasoning >= minReasoning) {
+      score += MODEL_SCORE_WEIGHTS.reasoning - 5 * (reasoning - minReasoning);
+      reasons.push(`reasoning ${caps.reasoning} handles ${request.difficulty} work`);
+    } else {
+      score += Math.max(0, MODEL_SCORE_WEIGHTS.reasoning - 20 * (minReasoning - reasoning));
+      rejections.push(`reasoning ${caps.reasoning} too weak for ${request.difficulty} work`);
+    }
+
+    // Cost: inside the preferred range, or penalised by distance from it
+    const range = COST_RANGES[request.costPreference] ?? COST_RANGES.medium;
+    const cost = COST_LEVELS.indexOf(caps.cost);
+    const low = COST_LEVELS.indexOf(range[0]);
+    const high = COST_LEVELS.indexOf(range[range.length - 1]);
+    if (cost >= low && cost <= high) {
+      score += MODEL_SCORE_WEIGHTS.cost;
+      reasons.push(`cost ${caps.cost} fits ${request.costPreference} budget`);
+    } else {
+      const distance = cost < low ? low - cost : cost - high;
+      score += Math.max(0, MODEL_SCORE_WEIGHTS.cost - 12 * distance);
+      rejections.push(`cost ${caps.cost} outside ${request.costPreference} budget (${range.join('/')})`);
+    }
+
+    // Speed and context length: more is better
+    score += MODEL_SCORE_WEIGHTS.speed * Math.max(0, SPEED_LEVELS.indexOf(caps.speed)) / (SPEED_LEVELS.length - 1);
+    score += MODEL_SCORE_WEIGHTS.context * Math.max(0, CONTEXT_LEVELS.indexOf(caps.context_length)) / (CONTEXT_LEVELS.length - 1);
+    reasons.push(`speed ${caps.speed}, context ${caps.context_length}`);
+
+    // Required capabilities, including custom keys from models.json
+    const missing = request.requiredCapabilities.filter(cap => !caps[cap]);
+    if (request.requiredCapabilities.length > 0) {
+      const met = request.requiredCapabilities.length - missing.length;
+      score += MODEL_SCORE_WEIGHTS.capabilities * met / request.requiredCapabilities.length;
+    } else {
+      score += MODEL_SCORE_WEIGHTS.capabilities;
+    }
+    if (missing.length > 0) {
+      rejections.push(`missing capabilities: ${missing.join(', ')}`);
+    } else if (request.requiredCapabilities.length > 0) {
+      reasons.push(`has ${request.requiredCapabilities.join(', ')}`);
+    }
+
+    // Learned reliability: flaky, timing-out or slow models lose points
+    const learned = this.stats?.get(model.id);
+    if (learned && learned.attempts >= MODEL_STATS_MIN_ATTEMPTS) {
+      const penalty = Math.round(this.reliabilityPenalty(learned));
+      score -= penalty;
+      reasons.push(`history: ${formatModelStats(learned)}${penalty > 0 ? ` (-${penalty})` : ''}`);
+    }
+
+    return { model, score: Math.max(0, Math.round(score)), eligible: rejections.length === 0, reasons, rejections };
+  }
+
+  private reliabilityPenalty(learned: ModelStatsSummary): number {
+    let penalty = MODEL_RELIABILITY_PENALTIES.failure * (1 - learned.successRate)
+      + MODEL_RELIABILITY_PENALTIES.timeout * learned.timeoutRate;
+
+    const overall = this.stats?.overallMedianDurationMs();
+    if (overall && learned.medianDurationMs && learned.medianDurationMs > overall) {
+      penalty += Math.min(1, learned.medianDurationMs / overall - 1) * MODEL_RELIABILITY_PENALTIES.slowness;
+    }
+    return penalty;
+  }
+
+  /**
+   * Ordered fallback models for retrying a failed sub-task
+   *
+   * Explicit fallbacks come first, then every other configured model able to
+   * handle the difficulty, in configuration order. The primary model is excluded.
+   */
+  buildFallbackChain(
+    primaryModelId: string | undefined,
+    taskDifficulty: 'basic' | 'medium' | 'complex',
+    explicitFallbacks: string[] = []
+  ): string[] {
+    const chain: string[] = [];
+    for (const id of explicitFallbacks) {
+      if (id !== primaryModelId && !chain.includes(id)) chain.push(id);
+    }
+    for (const model of this.models) {
+      if (model.id === primaryModelId || chain.includes(model.id)) continue;
+      if (REASONING_BY_DIFFICULTY[taskDifficulty]?.includes(model.capabilities.reasoning)) {
+        chain.push(model.id);
+      }
+    }
+    return chain;
+  }
+}
+
+// ============================================================================
+// Activity Logger
+// ============================================================================
+
+class ActivityLogger {
+  private logsPath: string;
+  private logFile: string;
+  private logger: any;
+  private listeners: Array<(entry: ActivityLogEntry) => void> = [];
+
+  constructor(logsPath: string, logger: any) {
+    this.logsPath = logsPath;
+    this.logFile = path.join(logsPath, 'task_activity.jsonl');
+    this.logger = logger;
+    this.ensureDir();
+  }
+
+  private ensureDir(): void {
+    if (!fs.existsSync(this.logsPath)) {
+      fs.mkdirSync(this.logsPath, { recursive: true });
+    }
+  }
+
+  log(entry: Omit<ActivityLogEntry, 'timestamp' | 'timestamp_iso'>): void {
+    try {
+      const fullEntry: ActivityLogEntry = {
+        event_type: entry.event_type,
+        task_id: entry.task_id,
+        sub_task_id: entry.sub_task_id,
+        child_session_id: entry.child_session_id,
+        assigned_model: entry.assigned_model,
+        priority: entry.priority,
+        status: entry.status,
+        message: entry.message,
+        error: entry.error,
+        ...entry,  // Event-specific fields
+        timestamp: Date.now(),
+        timestamp_iso: new Date().toISOString()
+      };
+
+      fs.appendFileSync(this.logFile, JSON.stringify(fullEntry) + '\n');
+      this.logger.debug(`Logged activity: ${entry.event_type}`);
+      this.listeners.forEach(listener => listener(fullEntry));
+    } catch (error) {
+      this.logger.error(`Failed to log activity: ${error}`);
+    }
+  }
+
+  /**
+   * Get notified of every entry appended to the log
+   */
+  subscribe(listener: (entry: ActivityLogEntry) => void): void {
+    this.listeners.push(listener);
+  }
+
+  logTaskDispatched(taskId: string, description: string, priority: string): void {
+    this.log({
+      event_type: 'task_dispatched',
+      task_id: taskId,
+      message: description,
+      priority,
+      status: 'dispatched'
+    });
+  }
+
+  logSubagentSpawned(taskId: string, subTaskId: string, sessionId: string, modelId: string): void {
+    this.log({
+      event_type: 'subagent_spawned',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      assigned_model: modelId,
+      status: 'spawned'
+    });
+  }
+
+  logSubagentCompleted(taskId: string, subTaskId: string, sessionId: string, subTask?: SubTask): void {
+    this.log({
+      event_type: 'subagent_completed',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      assigned_model: subTask?.modelId,
+      status: 'completed',
+      actual_duration_ms: subTask?.actualDuration,
+      total_steps: subTask?.stepsToExecute.length,
+      kind: subTask?.kind
+    });
+  }
+
+  logSubagentFailed(taskId: string, subTaskId: string, sessionId: string, error: string): void {
+    this.log({
+      event_type: 'subagent_failed',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      status: 'failed',
+      error
+    });
+  }
+
+  logSubagentAborted(taskId: string, subTaskId: string, sessionId: string, reason?: string): void {
+    this.log({
+      event_type: 'subagent_aborted',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      status: 'aborted',
+      error: reason
+    });
+  }
+
+  logSubtaskReleased(taskId: string, subTaskId: string, modelId?: string): void {
+    this.log({
+      event_type: 'subtask_released',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      assigned_model: modelId,
+      status: 'released'
+    });
+  }
+
+  logSubtaskPaused(taskId: string, subTaskId: string, reason?: string): void {
+    this.log({
+      event_type: 'subtask_paused',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      status: 'frozen',
+      message: reason
+    });
+  }
+
+  logSubtaskResumed(taskId: string, subTaskId: string, status: SubTask['status']): void {
+    this.log({
+      event_type: 'subtask_resumed',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      status
+    });
+  }
+
+  logSubtaskOrphaned(taskId: string, subTaskId: string, sessionId: string | undefined, requeued: boolean): void {
+    this.log({
+      event_type: 'subtask_orphaned',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      status: requeued ? 'pending' : 'orphaned',
+      message: 'No sign of the sub-agent session after restart',
+      requeued
+    });
+  }
+
+  logSubtaskStalled(taskId: string, subTaskId: string, sessionId: string | undefined, silentMs: number, step?: number): void {
+    this.log({
+      event_type: 'subtask_stalled',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      status: 'stalled',
+      silent_ms: silentMs,
+      last_step: step
+    });
+  }
+
+  logSubagentInvalidResult(taskId: string, subTaskId: string, sessionId: string, errors: string[]): void {
+    this.log({
+      event_type: 'subagent_invalid_result',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      status: 'invalid_result',
+      error: errors.join('; ')
+    });
+  }
+
+  logSubagentRetried(taskId: string, subTaskId: string, sessionId: string, modelId: string | undefined, attempt: number, delayMs: number, error?: string): void {
+    this.log({
+      event_type: 'subagent_retried',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      assigned_model: modelId,
+      status: 'retry_scheduled',
+      message: `Attempt ${attempt} scheduled in ${Math.round(delayMs / 1000)}s`,
+      error
+    });
+  }
+
+  logBudgetExceeded(taskId: string, status: 'exceeded' | 'held', reason: string): void {
+    this.log({
+      event_type: 'budget_exceeded',
+      task_id: taskId,
+      status,
+      message: reason
+    });
+  }
+
+  logTaskCancelled(taskId: string, reason: string, subTaskIds: string[], sessionIds: string[], reduceCancelled: boolean): void {
+    this.log({
+      event_type: 'task_cancelled',
+      task_id: taskId,
+      status: 'aborted',
+      message: reason,
+      cancelled_sub_tasks: subTaskIds,
+      aborted_sessions: sessionIds,
+      reduce_cancelled: reduceCancelled
+    });
+  }
+
+  logSessionUnbound(taskId: string, subTaskId: string, sessionId: string): void {
+    this.log({
+      event_type: 'session_unbound',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: sessionId,
+      status: 'unbound'
+    });
+  }
+
+  logSessionReconciled(taskId: string, subTaskId: string, record: SessionEndRecord): void {
+    this.log({
+      event_type: 'session_reconciled',
+      task_id: taskId,
+      sub_task_id: subTaskId,
+      child_session_id: record.sessionId,
+      status: record.outcome,
+      source: record.source,
+      message: record.reason,
+      last_step: record.lastReport?.currentStep
+    });
+  }
+
+  logMessageInjected(taskId: string, sessionId: string, message: string): void {
+    this.log({
+      event_type: 'message_injected',
+      task_id: taskId,
+      child_session_id: sessionId,
+      message: message.substring(0, 200) // Truncate for logging
+    });
+  }
+
+  logError(context: string, error: any): void {
+    this.log({
+      event_type: 'error',
+      message: context,
+      error: error?.message || String(error)
+    });
+  }
+}
+
+// ============================================================================
+// Model Stats
+// ============================================================================
+
+/**
+ * Per-model reliability and typical run times learned from finished attempts
+ *
+ * Every attempt ends with exactly one outcome event in task_activity.jsonl
+ * (completed, failed, aborted, invalid_result or retried). The n-th outcome
+ * of a sub-task is matched to the n-th entry of its attempt history, which
+ * holds the model and timing; entries from before attempts were recorded fall
+ * back to the sub-task itself, or to the model last released for it.
+ *
+ * Each subagent_completed event also carries the attempt's actualDuration,
+ * model, step count and kind (events from before these fields were logged
+ * fall back to the sub-task in the task state). Durations are kept per step,
+ * so a breakdown that ignores the step count can still be scaled to a
+ * sub-task's own number of steps. Estimates use the most specific breakdown
+ * with enough samples: model + steps, then model, then steps, then kind alone.
+ */
+class ModelStats {
+  private logFile: string;
+  private logger: any;
+  private findSubTask: (subTaskId: string) => SubTask | null;
+  private entries: Map<string, ModelStatsEntry> = new Map();
+  private outcomesBySubTask: Map<string, number> = new Map();
+  private releasedModels: Map<string, { modelId?: string; startedAt?: number }> = new Map();
+  private perStepMs: Map<string, number[]> = new Map();
+
+  constructor(logsPath: string, findSubTask: (subTaskId: string) => SubTask | null, logger: any) {
+    this.logFile = path.join(logsPath, 'task_activity.jsonl');
+    this.findSubTask = findSubTask;
+    this.logger = logger;
+  }
+
+  /**
+   * Rebuild all stats from the activity log
+   */
+  rebuild(): void {
+    this.entries.clear();
+    this.outcomesBySubTask.clear();
+    this.releasedModels.clear();
+    this.perStepMs.clear();
+
+    if (!fs.existsSync(this.logFile)) return;
+    try {
+      const lines = fs.readFileSync(this.logFile, 'utf-8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          this.ingest(JSON.parse(line));
+        } catch (e) {
+          // Skip malformed lines
+        }
+      }
+      this.logger.info(`Model stats rebuilt for ${this.entries.size} models`);
+    } catch (error) {
+      this.logger.error(`Failed to rebuild model stats from ${this.logFile}:`, error);
+    }
+  }
+
+  /**
+   * Update stats with one activity log entry
+   */
+  ingest(entry: ActivityLogEntry): void {
+    const subTaskId = entry.sub_task_id;
+    if (!subTaskId) return;
+    if (entry.event_type === 'subagent_completed') this.recordDuration(entry);
+
+    // Track which model a sub-task was handed to, for entries without attempt history
+    if (entry.event_type === 'subtask_released' || entry.event_type === 'subagent_spawned') {
+      const tracked = this.releasedModels.get(subTaskId) || {};
+      this.releasedModels.set(subTaskId, {
+        modelId: entry.assigned_model || tracked.modelId,
+        startedAt: entry.event_type === 'subagent_spawned' ? entry.timestamp : tracked.startedAt
+      });
+      return;
+    }
+
+    const outcome = MODEL_STATS_OUTCOMES[entry.event_type];
+    if (!outcome) return;
+
+    const index = this.outcomesBySubTask.get(subTaskId) || 0;
+    this.outcomesBySubTask.set(subTaskId, index + 1);
+    if (entry.error === MANUAL_ABORT_REASON || entry.error === ORPHANED_REASON) return;
+
+    const subTask = this.findSubTask(subTaskId);
+    const attempt = subTask?.attempts?.[index];
+    const tracked = this.releasedModels.get(subTaskId);
+    const modelId = attempt?.modelId || tracked?.modelId || subTask?.modelId;
+    if (!modelId) return;
+
+    // A retried attempt's next model arrives with the retry event
+    if (entry.event_type === 'subagent_retried') {
+      this.releasedModels.set(subTaskId, { modelId: entry.assigned_model });
+    }
+
+    const stats = this.entries.get(modelId) || { modelId, attempts: 0, successes: 0, timeouts: 0, durationsMs: [] };
+    stats.attempts++;
+    if (outcome === 'success') {
+      stats.successes++;
+      const startedAt = attempt?.startedAt ?? tracked?.startedAt ?? subTask?.startTime;
+      const endedAt = attempt?.endedAt ?? entry.timestamp;
+      const frozenMs = (attempt ? attempt.frozenMs : subTask?.frozenMs) || 0;
+      if (startedAt && endedAt - frozenMs > startedAt) {
+        stats.durationsMs.push(endedAt - startedAt - frozenMs);
+        if (stats.durationsMs.length > MODEL_STATS_DURATION_WINDOW) stats.durationsMs.shift();
+      }
+    }
+    if ((attempt?.error || entry.error || '').startsWith('Timed out')) {
+      stats.timeouts++;
+    }
+    this.entries.set(modelId, stats);
+  }
+
+  /**
+   * Summary for one model, or undefined when it has no finished attempts
+   */
+  get(modelId: string): ModelStatsSummary | undefined {
+    const stats = this.entries.get(modelId);
+    if (!stats || stats.attempts === 0) return undefined;
+
+    const sorted = [...stats.durationsMs].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return {
+      modelId,
+      attempts: stats.attempts,
+      successRate: stats.successes / stats.attempts,
+      timeoutRate: stats.timeouts / stats.attempts,
+      medianDurationMs: sorted.length === 0
+        ? undefined
+        : sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2)
+    };
+  }
+
+  /**
+   * Record the duration of one completed sub-task
+   */
+  private recordDuration(entry: ActivityLogEntry): void {
+    const subTask = entry.actual_duration_ms === undefined ? this.findSubTask(entry.sub_task_id!) : null;
+    const durationMs: number | undefined = entry.actual_duration_ms ?? subTask?.actualDuration;
+    const steps: number | undefined = entry.total_steps ?? subTask?.stepsToExecute.length;
+    if (!durationMs || durationMs <= 0 || !steps) return;
+
+    const modelId = entry.assigned_model || subTask?.modelId;
+    const kind = entry.kind || subTask?.kind;
+    for (const key of ModelStats.durationKeys(kind, modelId, steps)) {
+      if (!key) continue;
+      const durations = this.perStepMs.get(key) || [];
+      durations.push(durationMs / steps);
+      if (durations.length > DURATION_STATS_WINDOW) durations.shift();
+      this.perStepMs.set(key, durations);
+    }
+  }
+
+  /**
+   * Typical run time of a sub-task, or undefined until enough similar sub-tasks have completed
+   */
+  estimate(modelId: string | undefined, steps: number, kind?: SubTask['kind']): DurationEstimate | undefined {
+    const bases: DurationEstimate['basis'][] = ['model+steps', 'model', 'steps', 'kind'];
+    const keys = ModelStats.durationKeys(kind, modelId, steps);
+    for (let i = 0; i < keys.length; i++) {
+      const durations = keys[i] ? this.perStepMs.get(keys[i]!) : undefined;
+      if (!durations || durations.length < DURATION_STATS_MIN_SAMPLES) continue;
+
+      const sorted = [...durations].sort((a, b) => a - b);
+      const percentile = (p: number) => Math.round(sorted[Math.round(p * (sorted.length - 1))] * Math.max(1, steps));
+      return {
+        medianMs: percentile(0.5),
+        lowMs: percentile(0.25),
+        highMs: percentile(0.75),
+        samples: sorted.length,
+        basis: bases[i]
+      };
+    }
+    return undefined;
+  }
+
+  /** Duration breakdown keys from most to least specific (null when the model is unknown) */
+  private static durationKeys(kind: SubTask['kind'], modelId: string | undefined, steps: number): Array<string | null> {
+    const prefix = kind || 'map';
+    return [
+      modelId ? `${prefix}|${modelId}|${steps}` : null,
+      modelId ? `${prefix}|${modelId}|*` : null,
+      `${prefix}|*|${steps}`,
+      `${prefix}|*|*`
+    ];
+  }
+
+  list(): ModelStatsSummary[] {
+    return [...this.entries.keys()]
+      .map(modelId => this.get(modelId))
+      .filter((s): s is ModelStatsSummary => !!s);
+  }
+
+  /**
+   * Median of the per-model median durations, used as the "normal" speed
+   */
+  overallMedianDurationMs(): number | undefined {
+    const medians = this.list()
+      .filter(s => s.attempts >= MODEL_STATS_MIN_ATTEMPTS && s.medianDurationMs !== undefined)
+      .map(s => s.medianDurationMs!)
+      .sort((a, b) => a - b);
+    if (medians.length === 0) return undefined;
+    return medians[Math.floor(medians.length / 2)];
+  }
+}
+
+/**
+ * One-line description of a model's learned stats
+ */
+function formatModelStats(stats: ModelStatsSummary): string {
+  const pct = (rate: number) => `${Math.round(rate * 100)}%`;
+  return `${pct(stats.successRate)} success, ${pct(stats.timeoutRate)} timeouts over ${stats.attempts} attempts` +
+    (stats.medianDurationMs !== undefined ? `, median ${Math.round(stats.medianDurationMs / 1000)}s` : '');
+}
+
+// ============================================================================
+// Duration Estimates
+// ============================================================================
+
+/**
+ * Projected finish of a sub-task that has not finished yet
+ *
+ * Before the sub-agent reports, the learned estimate is all there is. Once it
+ * has reported k of n steps, its own pace (with the fastest and slowest step
+ * as the range) is blended in with weight k/n, so the ETA converges on the
+ * observed pace as progress reports arrive.
+ * @returns undefined when there is neither history nor progress to go on
+ */
+function estimateSubTaskEta(subTask: SubTask, learned: DurationEstimate | undefined, now: number = Date.now()): Eta | undefined {
+  const totalSteps = Math.max(1, subTask.stepsToExecute.length);
+  const elapsed = activeDuration(subTask, now);
+  const started = !!subTask.startTime;
+
+  const fromHistory = learned && {
+    mid: Math.max(0, learned.medianMs - elapsed),
+    low: Math.max(0, learned.lowMs - elapsed),
+    high: Math.max(0, learned.highMs - elapsed)
+  };
+
+  const stepDurations = started ? (subTask.stepDurations || []) : [];
+  const stepsDone = Math.min(stepDurations.length, totalSteps);
+  let fromPace: { mid: number; low: number; high: number } | undefined;
+  if (stepsDone > 0) {
+    const reported = stepDurations.reduce((sum, ms) => sum + ms, 0);
+    const sinceLastReport = Math.max(0, elapsed - reported);
+    const paced = stepDurations.filter(ms => ms > 0);
+    const pace = reported / stepsDone;
+    const left = totalSteps - stepsDone;
+    const mid = Math.max(0, left * pace - sinceLastReport);
+    fromPace = {
+      mid,
+      low: Math.min(mid, Math.max(0, left * (paced.length ? Math.min(...paced) : pace) - sinceLastReport)),
+      high: Math.max(mid, left * (paced.length ? Math.max(...paced) : pace) - sinceLastReport)
+    };
+  }
+
+  if (!fromHistory && !fromPace) return undefined;
+  const weight = !fromHistory ? 1 : !fromPace ? 0 : stepsDone / totalSteps;
+  const blend = (key: 'mid' | 'low' | 'high') =>
+    Math.round((fromPace ? fromPace[key] * weight : 0) + (fromHistory ? fromHistory[key] * (1 - weight) : 0));
+
+  return { finishAt: now + blend('mid'), earliest: now + blend('low'), latest: now + blend('high') };
+}
+
+/**
+ * Projected finish of a main task from its unfinished sub-tasks
+ *
+ * Pending sub-tasks start once their dependencies finish, and a pending reduce
+ * stage runs after everything else; concurrency limits are not modelled.
+ * @returns undefined when the task is paused or any unfinished sub-task has no estimate
+ */
+function estimateTaskEta(mainTask: MainTask, subTaskEtas: Map<string, Eta>, reduceEstimate: DurationEstimate | undefined, now: number = Date.now()): Eta | undefined {
+  if (mainTask.completedAt || mainTask.frozenAt) return undefined;
+
+  const finishes = new Map<string, Eta>();
+  const visiting = new Set<string>();
+  const finishOf = (subTask: SubTask): Eta | undefined => {
+    if (finishes.has(subTask.id)) return finishes.get(subTask.id);
+    if (subTask.status === 'completed') return { finishAt: now, earliest: now, latest: now };
+    if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status) || subTask.status === 'frozen' || visiting.has(subTask.id)) return undefined;
+    const own = subTaskEtas.get(subTask.id);
+    if (!own) return undefined;
+    if (subTask.startTime || !subTask.dependsOn?.length) {
+      finishes.set(subTask.id, own);
+      return own;
+    }
+
+    // Shift a not-yet-started sub-task behind its slowest dependency
+    visiting.add(subTask.id);
+    const deps = subTask.dependsOn.map(depId => mainTask.subTasks.find(st => st.id === depId));
+    const depEtas = deps.map(dep => dep ? finishOf(dep) : undefined);
+    visiting.delete(subTask.id);
+    if (depEtas.some(eta => !eta)) return undefined;
+    const eta: Eta = {
+      finishAt: own.finishAt + Math.max(0, ...depEtas.map(d => d!.finishAt - now)),
+      earliest: own.earliest + Math.max(0, ...depEtas.map(d => d!.earliest - now)),
+      latest: own.latest + Math.max(0, ...depEtas.map(d => d!.latest - now))
+    };
+    finishes.set(subTask.id, eta);
+    return eta;
+  };
+
+  const unfinished = mainTask.subTasks.filter(st => !TERMINAL_SUBTASK_STATUSES.includes(st.status));
+  if (unfinished.some(st => st.status === 'frozen')) return undefined;
+  const etas = unfinished.map(finishOf);
+  if (etas.some(eta => !eta)) return undefined;
+
+  let eta: Eta = {
+    finishAt: Math.max(now, ...etas.map(e => e!.finishAt)),
+    earliest: Math.max(now, ...etas.map(e => e!.earliest)),
+    latest: Math.max(now, ...etas.map(e => e!.latest))
+  };
+  if (mainTask.reduce && !mainTask.reduce.subTaskId) {
+    if (!reduceEstimate) return undefined;
+    eta = {
+      finishAt: eta.finishAt + reduceEstimate.medianMs,
+      earliest: eta.earliest + reduceEstimate.lowMs,
+      latest: eta.latest + reduceEstimate.highMs
+    };
+  }
+  return eta;
+}
+
+/**
+ * Short human-readable duration, e.g. "45s", "12m30s" or "2h05m"
+ */
+function formatDuration(ms: number): string {
+  if (ms < 60000) return `${Math.round(ms / 1000)}s`;
+  if (ms < 3600000) return `${Math.floor(ms / 60000)}m${String(Math.floor((ms % 60000) / 1000)).padStart(2, '0')}s`;
+  return `${Math.floor(ms / 3600000)}h${String(Math.floor((ms % 3600000) / 60000)).padStart(2, '0')}m`;
+}
+
+/**
+ * ETA relative to now with its range, e.g. "~12m30s (8m00s-20m00s)"
+ */
+function formatEta(eta: Eta, now: number = Date.now()): string {
+  const from = (at: number) => formatDuration(Math.max(0, at - now));
+  return `~${from(eta.finishAt)} (${from(eta.earliest)}-${from(eta.latest)})`;
+}
+
+// ============================================================================
+// Dispatch Queue
+// ============================================================================
+
+/**
+ * Plugin-wide ordering and admission of ready sub-tasks
+ *
+ * Queued sub-tasks are ordered by effective priority (the main task's priority,
+ * raised by one level per starvationAgeMs of waiting, so low work cannot starve),
+ * then by how long they have been waiting. Walking that order, each sub-task is
+ * released while the global, per-provider and per-task limits have room, so a
+ * lower-ranked sub-task only gets a slot no higher-ranked one could use.
+ */
+class DispatchQueue {
+  private limits: Pick<OrchestratorConfig, 'maxConcurrentSubagents' | 'maxConcurrentPerProvider' | 'providerLimits' | 'starvationAgeMs'>;
+
+  constructor(limits: DispatchQueue['limits']) {
+    this.limits = limits;
+  }
+
+  /**
+   * Provider of a model: the part before "/" (e.g. "anthropic"), else before the first "-" (e.g. "gemini")
+   */
+  static providerOf(modelId: string | undefined): string {
+    if (!modelId) return 'unknown';
+    return modelId.includes('/') ? modelId.split('/')[0] : modelId.split('-')[0];
+  }
+
+  providerLimit(provider: string): number {
+    return this.limits.providerLimits[provider] ?? this.limits.maxConcurrentPerProvider;
+  }
+
+  /**
+   * Decide which queued sub-tasks can be released now
+   * @param queued Ready sub-tasks across all main tasks
+   * @param inFlight Sub-tasks currently holding a slot (running, or released but not bound yet)
+   */
+  plan(queued: QueuedSubTask[], inFlight: SubTask[], now: number = Date.now()): DispatchDecision[] {
+    const ordered = queued
+      .map(entry => ({
+        ...entry,
+        effectivePriority: PRIORITY_RANK[entry.mainTask.priority] +
+          Math.min(MAX_PRIORITY_AGING, Math.floor((now - entry.readySince) / this.limits.starvationAgeMs))
+      }))
+      .sort((a, b) => b.effectivePriority - a.effectivePriority || a.readySince - b.readySince);
+
+    let globalInFlight = inFlight.length;
+    const providerInFlight = new Map<string, number>();
+    const taskInFlight = new Map<string, number>();
+    for (const st of inFlight) {
+      const provider = DispatchQueue.providerOf(st.modelId);
+      providerInFlight.set(provider, (providerInFlight.get(provider) || 0) + 1);
+      taskInFlight.set(st.mainTaskId, (taskInFlight.get(st.mainTaskId) || 0) + 1);
+    }
+
+    return ordered.map((entry, i) => {
+      const provider = DispatchQueue.providerOf(entry.subTask.modelId);
+      const providerCount = providerInFlight.get(provider) || 0;
+      const taskCount = taskInFlight.get(entry.mainTask.id) || 0;
+
+      let waitReason: string | undefined = entry.blockedReason;
+      if (!waitReason && entry.mainTask.maxConcurrency && taskCount >= entry.mainTask.maxConcurrency) {
+        waitReason = `task concurrency limit (${taskCount}/${entry.mainTask.maxConcurrency} in flight)`;
+      } else if (!waitReason && globalInFlight >= this.limits.maxConcurrentSubagents) {
+        waitReason = `global limit (${globalInFlight}/${this.limits.maxConcurrentSubagents} in flight)`;
+      } else if (!waitReason && providerCount >= this.providerLimit(provider)) {
+        waitReason = `provider ${provider} limit (${providerCount}/${this.providerLimit(provider)} in flight)`;
+      }
+
+      if (!waitReason) {
+        globalInFlight++;
+        providerInFlight.set(provider, providerCount + 1);
+        taskInFlight.set(entry.mainTask.id, taskCount + 1);
+      }
+      return { ...entry, position: i + 1, release: !waitReason, waitReason };
+    });
+  }
+}
+
+// ============================================================================
+// Progress Manager
+// ============================================================================
+
+/**
+ * Progress Report Explanation:
+ *
+ * Sub-agents report progress through:
+ * 1. The psam_report_progress tool (preferred)
+ * 2. Temporary files in /tmp/psam-progress/{subTaskId}.json
+ * 3. [PSAM-*] markers in their messages
+ *
+ * Reports from the tool and from markers are stored as progress files too, so
+ * orchestrate_status reads every channel the same way.
+ *
+ * Sub-agent tasks will include progress reporting instructions
+ */
+
+class ProgressManager {
+  private progressPath: string;
+  private logger: any;
+
+  constructor(progressPath: string, logger: any) {
+    this.progressPath = progressPath;
+    this.logger = logger;
+    this.ensureDir();
+  }
+
+  private ensureDir(): void {
+    if (!fs.existsSync(this.progressPath)) {
+      fs.mkdirSync(this.progressPath, { recursive: true });
+    }
+  }
+
+  /**
+   * Generate progress reporting instructions for sub-agent tasks
+   */
+  generateProgressInstructions(subTaskId: string, totalSteps: number, progressPath: string): string {
+    return `
+## Progress Report [Required - Part of Task]
+
+After each of the ${totalSteps} steps, call \`psam_report_progress\` with \`sub_task_id: "${subTaskId}"\`, \`step\`, \`status: "in_progress"\` and a short \`message\`.
+When done, call it with \`status: "completed"\` and your deliverable in \`result\` (\`text\`, structured \`data\`, produced \`files\`); if you fail, use \`status: "failed"\` with the reason as \`message\`. Add \`usage: { input_tokens, output_tokens }\` (session totals) if you know them.
+If the tool answers that the sub-task is paused, wait 30 seconds and report the same step again before continuing.
+
+If the tool is not available, write \`{ subTaskId, currentStep, totalSteps, status, message, timestamp, result, usage }\` as JSON to \`${progressPath}/${subTaskId}.json\` (and pause while \`${progressPath}/${subTaskId}.hold\` exists), or put markers in your messages (each marker's text runs until the next marker):
+\`[PSAM-PROGRESS] ${subTaskId} | Step N/${totalSteps} | message\`, \`[PSAM-COMPLETE] ${subTaskId} | Result: ...\`, \`[PSAM-FAILED] ${subTaskId} | Reason: ...\`
+`;
+  }
+
+  /**
+   * Ask a sub-agent to pause by writing its hold file
+   */
+  writeHold(subTaskId: string, reason?: string): void {
+    const filePath = path.join(this.progressPath, `${subTaskId}.hold`);
+    try {
+      this.ensureDir();
+      fs.writeFileSync(filePath, JSON.stringify({ subTaskId, reason, heldAt: Date.now() }, null, 2));
+    } catch (error) {
+      this.logger.warn(`Failed to write hold file ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Let a paused sub-agent continue by removing its hold file
+   */
+  clearHold(subTaskId: string): void {
+    const filePath = path.join(this.progressPath, `${subTaskId}.hold`);
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to remove hold file ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Read sub-agent progress
+   */
+  readProgress(subTaskId: string): ProgressReport | null {
+    try {
+      const filePath = path.join(this.progressPath, `${subTaskId}.json`);
+      if (fs.existsSync(filePath)) {
+        const content = fs.readFileSync(filePath, 'utf-8');
+        return JSON.parse(content);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to read progress for ${subTaskId}:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Write an in-progress report on a sub-agent's behalf, keeping fields it wrote itself (usage, result)
+   *
+   * A file already reporting completion or failure is left alone.
+   */
+  mergeProgress(report: ProgressReport): void {
+    const filePath = path.join(this.progressPath, `${report.subTaskId}.json`);
+    const existing = this.readProgress(report.subTaskId);
+    if (existing && existing.status && existing.status !== 'in_progress') return;
+
+    try {
+      this.ensureDir();
+      fs.writeFileSync(filePath, JSON.stringify({ ...existing, ...report }, null, 2));
+    } catch (error) {
+      this.logger.warn(`Failed to write progress file ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Remove a sub-task's progress file (e.g. before a retry reuses the sub-task ID)
+   */
+  removeProgress(subTaskId: string): void {
+    const filePath = path.join(this.progressPath, `${subTaskId}.json`);
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+        this.logger.debug(`Removed progress file: ${filePath}`);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to remove progress file ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * Read all progress reports
+   */
+  readAllProgress(): ProgressReport[] {
+    const reports: ProgressReport[] = [];
+    try {
+      if (!fs.existsSync(this.progressPath)) return reports;
+
+      const files = fs.readdirSync(this.progressPath).filter(f => f.endsWith('.json'));
+      for (const file of files) {
+        try {
+          const content = fs.readFileSync(path.join(this.progressPath, file), 'utf-8');
+          reports.push(JSON.parse(content));
+        } catch (e) {
+          // Skip invalid files
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to read all progress:', error);
+    }
+    return reports;
+  }
+
+  /**
+   * Clean up completed progress files (enhanced version)
+   * @returns Number of files cleaned
+   */
+  cleanupCompletedProgress(): number {
+    let cleaned = 0;
+    let skipped = 0;
+    const startTime = Date.now();
+
+    try {
+      if (!fs.existsSync(this.progressPath)) {
+        this.logger.debug('Progress path does not exist, nothing to cleanup');
+        return 0;
+      }
+
+      const files = fs.readdirSync(this.progressPath).filter(f => f.endsWith('.json'));
+      this.logger.debug(`Checking ${files.length} progress files for cleanup`);
+
+      for (const file of files) {
+        const filePath = path.join(this.progressPath, file);
+        try {
+          // Validate JSON format and status field
+          const content = fs.readFileSync(filePath, 'utf-8');
+          const report = JSON.parse(content) as ProgressReport;
+
+          // Check status field exists
+          if (!report.status) {
+            this.logger.warn(`Progress file missing status field: ${file}, skipping`);
+            skipped++;
+            continue;
+          }
+
+          // Only clean completed/failed/aborted files
+          if (report.status === 'completed' || report.status === 'failed' || report.status === 'aborted') {
+            fs.unlinkSync(filePath);
+            cleaned++;
+            this.logger.debug(`Cleaned progress file: ${file} (status: ${report.status})`);
+          }
+        } catch (parseError) {
+          // Skip corrupted files and log warning
+          this.logger.warn(`Invalid progress file ${file}: ${parseError instanceof Error ? parseError.message : String(parseError)}, skipping`);
+          skipped++;
+        }
+      }
+
+      const duration = Date.now() - startTime;
+      // Log cleanup details
+      this.logger.info(`Progress cleanup: ${cleaned} removed, ${skipped} skipped, ${files.length - cleaned - skipped} preserved (${duration}ms)`);
+    } catch (error) {
+      this.logger.error('Failed to cleanup progress files:', error);
+    }
+
+    return cleaned;
+  }
+}
+
+// ============================================================================
+// Result Store
+// ============================================================================
+
+/**
+ * Durable sub-task results, stored as {statePath}/results/{mainTaskId}/{subTaskId}.json
+ *
+ * Unlike progress files, results survive session_end and progress cleanup;
+ * they are only removed together with their main task.
+ */
+class ResultStore {
+  private resultsPath: string;
+  private logger: any;
+
+  constructor(statePath: string, logger: any) {
+    this.resultsPath = path.join(statePath, 'results');
+    this.logger = logger;
+  }
+
+  /**
+   * Save a sub-task result
+   * @returns Path of the stored artifact, or null on failure
+   */
+  save(result: SubTaskResult): string | null {
+    try {
+      const dir = path.join(this.resultsPath, result.mainTaskId);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      const filePath = path.join(dir, `${result.subTaskId}.json`);
+      fs.writeFileSync(filePath, JSON.stringify(result, null, 2));
+      this.logger.debug(`Saved result for ${result.subTaskId} to ${filePath}`);
+      return filePath;
+    } catch (error) {
+      this.logger.error(`Failed to save result for ${result.subTaskId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Read a stored result artifact
+   */
+  read(resultPath: string): SubTaskResult | null {
+    try {
+      if (fs.existsSync(resultPath)) {
+        return JSON.parse(fs.readFileSync(resultPath, 'utf-8'));
+      }
+    } catch (error) {
+      this.logger.error(`Failed to read result ${resultPath}:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Remove result directories of main tasks that no longer exist
+   * @returns Number of task directories removed
+   */
+  pruneOrphans(validTaskIds: string[]): number {
+    let removed = 0;
+    try {
+      if (!fs.existsSync(this.resultsPath)) return 0;
+
+      for (const dir of fs.readdirSync(this.resultsPath)) {
+        if (!validTaskIds.includes(dir)) {
+          fs.rmSync(path.join(this.resultsPath, dir), { recursive: true, force: true });
+          removed++;
+        }
+      }
+      if (removed > 0) {
+        this.logger.info(`Removed results of ${removed} deleted tasks`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to prune results:', error);
+    }
+    return removed;
+  }
+}
+
+// ============================================================================
+// Outcome Validation
+// ============================================================================
+
+const JSON_SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/** JSON Schema constraint keywords passed through to TypeBox, which checks them itself */
+const JSON_SCHEMA_CONSTRAINTS = [
+  'minLength', 'maxLength', 'pattern',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+  'minItems', 'maxItems', 'uniqueItems', 'minProperties', 'maxProperties'
+];
+
+/**
+ * Build the TypeBox type for a JSON Schema, so results can be checked with Value.Check
+ *
+ * Covers type (and type lists), enum, const, properties/required/additionalProperties,
+ * items, $ref into definitions/$defs, anyOf/allOf and the constraints above.
+ * oneOf is checked like anyOf; other keywords (e.g. format) are ignored.
+ */
+function fromJsonSchema(schema: any): TSchema {
+  if (!schema || typeof schema !== 'object') return Type.Unknown();
+  if (typeof schema.$ref === 'string') return Type.Ref(schema.$ref);
+
+  const options = Object.fromEntries(JSON_SCHEMA_CONSTRAINTS.filter(key => schema[key] !== undefined).map(key => [key, schema[key]]));
+  const literal = (value: any): TSchema =>
+    value === null ? Type.Null() : ['string', 'number', 'boolean'].includes(typeof value) ? Type.Literal(value) : Type.Unknown();
+  const ofType = (type: string): TSchema => {
+    switch (type) {
+      case 'string': return Type.String(options);
+      case 'number': return Type.Number(options);
+      case 'integer': return Type.Integer(options);
+      case 'boolean': return Type.Boolean();
+      case 'null': return Type.Null();
+      case 'array': return Type.Array(fromJsonSchema(schema.items), options);
+      case 'object': {
+        const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+        const properties: Record<string, TSchema> = {};
+        for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+          properties[key] = required.includes(key) ? fromJsonSchema(propSchema) : Type.Optional(fromJsonSchema(propSchema));
+        }
+        for (const key of required) {
+          properties[key] = properties[key] || Type.Unknown();
+        }
+        const additional = schema.additionalProperties;
+        return Type.Object(properties, {
+          ...options,
+          ...(additional === false ? { additionalProperties: false } : {}),
+          ...(additional && typeof additional === 'object' ? { additionalProperties: fromJsonSchema(additional) } : {})
+        });
+      }
+      default: return Type.Unknown();
+    }
+  };
+
+  const parts: TSchema[] = [];
+  const types: string[] = Array.isArray(schema.type) ? schema.type
+    : schema.type !== undefined ? [schema.type]
+    : schema.properties || schema.required ? ['object'] : [];
+  if (types.length > 0) {
+    parts.push(types.length === 1 ? ofType(types[0]) : Type.Union(types.map(ofType)));
+  }
+  if (schema.const !== undefined) parts.push(literal(schema.const));
+  if (Array.isArray(schema.enum)) parts.push(Type.Union(schema.enum.map(literal)));
+  if (Array.isArray(schema.allOf)) parts.push(...schema.allOf.map(fromJsonSchema));
+  for (const key of ['anyOf', 'oneOf']) {
+    if (Array.isArray(schema[key])) parts.push(Type.Union(schema[key].map(fromJsonSchema)));
+  }
+
+  return parts.length === 0 ? Type.Unknown() : parts.length === 1 ? parts[0] : Type.Intersect(parts);
+}
+
+/**
+ * Validate a value against a JSON Schema with TypeBox
+ * @returns List of validation errors (empty when valid), e.g. "$.rows: Expected number"
+ */
+function validateJsonSchema(schema: Record<string, any>, value: any): string[] {
+  if (!schema || typeof schema !== 'object') return [];
+
+  try {
+    const references: TSchema[] = [{ ...fromJsonSchema(schema), $id: '#' }];
+    for (const key of ['definitions', '$defs']) {
+      for (const [name, definition] of Object.entries(schema[key] || {})) {
+        references.push({ ...fromJsonSchema(definition), $id: `#/${key}/${name}` });
+      }
+    }
+    const type = fromJsonSchema(schema);
+    if (Value.Check(type, references, value)) return [];
+
+    return [...Value.Errors(type, references, value)].map(error => {
+      const at = '$' + error.path.replace(/\/(\d+)(?=\/|$)/g, '[$1]').replace(/\//g, '.');
+      return `${at}: ${error.message}`;
+    });
+  } catch (error: any) {
+    return [`$: schema could not be checked (${error?.message || error})`];
+  }
+}
+
+/**
+ * Check that an expected_outcome is free text or a plausible JSON Schema
+ * @returns List of validation errors (empty when valid)
+ */
+function validateExpectedOutcome(outcome: unknown, label: string): string[] {
+  if (typeof outcome === 'string') return [];
+  if (!outcome || typeof outcome !== 'object' || Array.isArray(outcome)) {
+    return [`${label} must be a string or a JSON Schema object`];
+  }
+
+  const type = (outcome as any).type;
+  const types = Array.isArray(type) ? type : type === undefined ? [] : [type];
+  if (types.some((t: any) => !JSON_SCHEMA_TYPES.includes(t))) {
+    return [`${label}.type must be one of: ${JSON_SCHEMA_TYPES.join(', ')}`];
+  }
+  return [];
+}
+
+/**
+ * Split an expected_outcome into the prompt text and, when it is a JSON Schema, the schema itself
+ */
+function resolveExpectedOutcome(
+  outcome: string | Record<string, any> | undefined,
+  fallback: string
+): { expectedOutcome: string; outcomeSchema?: Record<string, any> } {
+  if (outcome === undefined || outcome === '') {
+    return { expectedOutcome: fallback };
+  }
+  if (typeof outcome === 'string') {
+    return { expectedOutcome: outcome };
+  }
+
+  return {
+    expectedOutcome: `A structured result: report it as \`result.data\`, matching this JSON Schema exactly:\n` +
+      `\`\`\`json\n${JSON.stringify(outcome, null, 2)}\n\`\`\``,
+    outcomeSchema: outcome
+  };
+}
+
+// ============================================================================
+// Sub-Task Planning
+// ============================================================================
+
+/**
+ * Validate caller-supplied sub-task plans
+ * @returns List of validation errors (empty when valid)
+ */
+function validateSubTaskPlans(plans: unknown): string[] {
+  if (!Array.isArray(plans)) {
+    return ['subtasks must be an array'];
+  }
+
+  const errors: string[] = [];
+  if (plans.length === 0) {
+    errors.push('subtasks must contain at least one entry');
+  }
+  if (plans.length > MAX_SUBTASKS) {
+    errors.push(`subtasks cannot contain more than ${MAX_SUBTASKS} entries`);
+  }
+
+  const validDifficulty = ['basic', 'medium', 'complex'];
+  const keys = plans.map((plan: any, i: number) => planKeyOf(plan, i));
+
+  plans.forEach((plan: any, i: number) => {
+    const label = `subtasks[${i}]`;
+    if (!plan || typeof plan !== 'object' || Array.isArray(plan)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof plan.description !== 'string' || plan.description.trim().length === 0) {
+      errors.push(`${label}.description is required`);
+    }
+    if (plan.role_prompt !== undefined && (typeof plan.role_prompt !== 'string' || plan.role_prompt.trim().length === 0)) {
+      errors.push(`${label}.role_prompt must be a non-empty string`);
+    }
+    if (plan.steps_to_execute !== undefined) {
+      const steps = plan.steps_to_execute;
+      if (!Array.isArray(steps) || steps.length === 0 || steps.some((step: any) => typeof step !== 'string' || step.trim().length === 0)) {
+        errors.push(`${label}.steps_to_execute must be a non-empty array of non-empty strings`);
+      }
+    }
+    if (plan.expected_outcome !== undefined) {
+      errors.push(...validateExpectedOutcome(plan.expected_outcome, `${label}.expected_outcome`));
+    }
+    if (plan.difficulty !== undefined && !validDifficulty.includes(plan.difficulty)) {
+      errors.push(`${label}.difficulty must be one of: ${validDifficulty.join(', ')}`);
+    }
+    errors.push(...validateModelRequirements(plan, label));
+    if (plan.models !== undefined && typeof plan.models !== 'string') {
+      errors.push(`${label}.models must be a comma-separated string`);
+    }
+    if (plan.key !== undefined && (typeof plan.key !== 'string' || plan.key.trim().length === 0)) {
+      errors.push(`${label}.key must be a non-empty string`);
+    } else if (keys.indexOf(keys[i]) !== i) {
+      errors.push(`${label}.key "${keys[i]}" is not unique`);
+    }
+    if (plan.depends_on !== undefined) {
+      if (!Array.isArray(plan.depends_on) || plan.depends_on.some((dep: any) => typeof dep !== 'string')) {
+        errors.push(`${label}.depends_on must be an array of sub-task keys`);
+      } else {
+        for (const dep of plan.depends_on) {
+          if (dep === keys[i]) {
+            errors.push(`${label}.depends_on cannot reference itself`);
+          } else if (!keys.includes(dep)) {
+            errors.push(`${label}.depends_on references unknown key "${dep}"`);
+          }
+        }
+      }
+    }
+  });
+
+  // Cycle detection only makes sense once every reference resolves
+  if (errors.length === 0) {
+    const graph = new Map<string, string[]>();
+    plans.forEach((plan: any, i: number) => graph.set(keys[i], plan.depends_on || []));
+    const cycle = findDependencyCycle(graph);
+    if (cycle) {
+      errors.push(`subtasks contain a dependency cycle: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a caller-supplied reduce stage
+ * @returns List of validation errors (empty when valid)
+ */
+function validateReducePlan(reduce: any): string[] {
+  if (!reduce || typeof reduce !== 'object' || Array.isArray(reduce)) {
+    return ['reduce must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (typeof reduce.description !== 'string' || reduce.description.trim().length === 0) {
+    errors.push('reduce.description is required');
+  }
+  if (reduce.role_prompt !== undefined && (typeof reduce.role_prompt !== 'string' || reduce.role_prompt.trim().length === 0)) {
+    errors.push('reduce.role_prompt must be a non-empty string');
+  }
+  if (reduce.expected_outcome !== undefined) {
+    errors.push(...validateExpectedOutcome(reduce.expected_outcome, 'reduce.expected_outcome'));
+  }
+  if (reduce.difficulty !== undefined && !['basic', 'medium', 'complex'].includes(reduce.difficulty)) {
+    errors.push('reduce.difficulty must be one of: basic, medium, complex');
+  }
+  errors.push(...validateModelRequirements(reduce, 'reduce'));
+  if (reduce.models !== undefined && typeof reduce.models !== 'string') {
+    errors.push('reduce.models must be a comma-separated string');
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the capabilities and cost fields of a plan entry or reduce stage
+ */
+function validateModelRequirements(entry: any, label: string): string[] {
+  const errors: string[] = [];
+  const caps = entry.capabilities;
+  if (caps !== undefined && (!Array.isArray(caps) || caps.some((cap: any) => typeof cap !== 'string' || cap.trim().length === 0))) {
+    errors.push(`${label}.capabilities must be an array of capability names`);
+  }
+  if (entry.cost !== undefined && !['low', 'medium', 'high'].includes(entry.cost)) {
+    errors.push(`${label}.cost must be one of: low, medium, high`);
+  }
+  return errors;
+}
+
+/**
+ * Build the aggregation sub-task description from its siblings' results
+ */
+function buildReduceDescription(description: string, siblings: SubTask[]): string {
+  const results = siblings.map((st, i) =>
+    `### ${i + 1}. ${st.taskDescription}\n${st.result || '(no result reported)'}` +
+    (st.resultPath ? `\n(Full result artifact with structured data and files: ${st.resultPath})` : '')
+  ).join('\n\n');
+
+  return `${description}\n\n## Sub-Task Results\n\n${results}`;
+}
+
+/**
+ * Validate fan-out items and their description template
+ * @returns List of validation errors (empty when valid)
+ */
+function validateFanOutItems(items: unknown, template: unknown): string[] {
+  if (!Array.isArray(items)) {
+    return ['items must be an array'];
+  }
+
+  const errors: string[] = [];
+  if (items.length === 0) {
+    errors.push('items must contain at least one entry');
+  }
+  if (items.length > MAX_FANOUT_ITEMS) {
+    errors.push(`items cannot contain more than ${MAX_FANOUT_ITEMS} entries`);
+  }
+  items.forEach((item: any, i: number) => {
+    if (typeof item !== 'string' || item.trim().length === 0) {
+      errors.push(`items[${i}] must be a non-empty string`);
+    }
+  });
+  if (template !== undefined && (typeof template !== 'string' || !template.includes('{item}'))) {
+    errors.push('description_template must be a string containing the {item} placeholder');
+  }
+
+  return errors;
+}
+
+/**
+ * Substitute {item} and {index} (1-based) into a fan-out description template
+ */
+function renderItemTemplate(template: string, item: string, index: number): string {
+  return template.split('{item}').join(item).split('{index}').join(String(index + 1));
+}
+
+/**
+ * Key used by depends_on to reference a plan entry (explicit key, or 1-based position)
+ */
+function planKeyOf(plan: Partial<SubTaskPlan> | undefined, index: number): string {
+  return typeof plan?.key === 'string' && plan.key.trim().length > 0 ? plan.key.trim() : String(index + 1);
+}
+
+/**
+ * Find a cycle in a dependency graph (node -> nodes it depends on)
+ * @returns The nodes forming the cycle, or null if the graph is acyclic
+ */
+function findDependencyCycle(graph: Map<string, string[]>): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (node: string): string[] | null => {
+    if (visiting.has(node)) return [...stack.slice(stack.indexOf(node)), node];
+    if (visited.has(node)) return null;
+
+    visiting.add(node);
+    stack.push(node);
+    for (const dep of graph.get(node) || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visiting.delete(node);
+    visited.add(node);
+    return null;
+  };
+
+  for (const node of graph.keys()) {
+    const cycle = visit(node);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Build the sub-agent prompt: role, overall context, own slice of work, steps and expected outcome
+ */
+function buildSubTaskPrompt(mainTask: MainTask, subTask: SubTask): string {
+  const steps = subTask.stepsToExecute.map((step, i) => `${i + 1}. ${step}`).join('\n');
+
+  return `${subTask.rolePrompt}\n\n` +
+    `## Overall Task\n${mainTask.description}\n\n` +
+    `## Your Sub-Task\n${subTask.taskDescription}\n\n` +
+    `## Steps to Execute\n${steps}\n\n` +
+    `## Expected Outcome\n${subTask.expectedOutcome}`;
+}
+
+// ============================================================================
+// Usage & Budget
+// ============================================================================
+
+function addUsage(a: Usage | undefined, b: Usage): Usage {
+  return {
+    inputTokens: (a?.inputTokens || 0) + b.inputTokens,
+    outputTokens: (a?.outputTokens || 0) + b.outputTokens,
+    costUsd: (a?.costUsd || 0) + b.costUsd
+  };
+}
+
+/**
+ * Price token counts with a model's pricing (0 when the model has no pricing)
+ */
+function priceUsage(inputTokens: number, outputTokens: number, pricing?: ModelPricing): Usage {
+  const costUsd = pricing
+    ? (inputTokens * pricing.input_per_mtok + outputTokens * pricing.output_per_mtok) / 1_000_000
+    : 0;
+  return { inputTokens, outputTokens, costUsd };
+}
+
+/**
+ * Describe which budget limit a usage crosses
+ * @returns Reason text, or null when within budget
+ */
+function checkBudget(usage: Usage | undefined, budget: Budget): string | null {
+  if (!usage) return null;
+  if (budget.maxCostUsd !== undefined && usage.costUsd > budget.maxCostUsd) {
+    return `$${usage.costUsd.toFixed(4)} exceeds budget of $${budget.maxCostUsd.toFixed(2)}`;
+  }
+  const tokens = usage.inputTokens + usage.outputTokens;
+  if (budget.maxTokens !== undefined && tokens > budget.maxTokens) {
+    return `${tokens} tokens exceed budget of ${budget.maxTokens}`;
+  }
+  return null;
+}
+
+/**
+ * One-line spent-vs-budget summary
+ */
+function formatSpend(usage: Usage | undefined, budget?: Budget): string {
+  const tokens = (usage?.inputTokens || 0) + (usage?.outputTokens || 0);
+  const cost = usage?.costUsd || 0;
+  return `$${cost.toFixed(4)}${budget?.maxCostUsd !== undefined ? ` / $${budget.maxCostUsd.toFixed(2)}` : ''}` +
+    ` | Tokens: ${tokens}${budget?.maxTokens !== undefined ? ` / ${budget.maxTokens}` : ''}`;
+}
+
+// ============================================================================
+// Pause & Resume
+// ============================================================================
+
+/**
+ * Running time of a sub-task's current attempt, excluding time spent paused
+ */
+function activeDuration(subTask: SubTask, now: number = Date.now()): number {
+  if (!subTask.startTime) return 0;
+  const frozenNow = subTask.frozenAt ? now - subTask.frozenAt : 0;
+  return Math.max(0, now - subTask.startTime - (subTask.frozenMs || 0) - frozenNow);
+}
+
+/**
+ * Message telling a running sub-agent to hold or continue
+ */
+function buildHoldMessage(subTaskId: string, hold: boolean, progressPath: string, reason?: string): string {
+  return hold
+    ? `[PSAM] Pause sub-task ${subTaskId}${reason ? ` (${reason})` : ''}. Finish your current tool call, then wait until ${progressPath}/${subTaskId}.hold is removed before continuing.`
+    : `[PSAM] Resume sub-task ${subTaskId}. The hold has been lifted; continue with your next step.`;
+}
+
+// ============================================================================
+// Heartbeats
+// ============================================================================
+
+/**
+ * Last sign of life from a sub-agent: its latest progress report, the last
+ * step transition seen, its start, or its last resume from a pause
+ */
+function lastHeartbeat(subTask: SubTask, report: ProgressReport | null): number {
+  const timeline = subTask.timeline || [];
+  return Math.max(
+    typeof report?.timestamp === 'number' ? report.timestamp : 0,
+    timeline.length > 0 ? timeline[timeline.length - 1].at : 0,
+    subTask.startTime || 0,
+    subTask.resumedAt || 0
+  );
+}
+
+/**
+ * Message asking a stalled sub-agent to report progress
+ */
+function buildNudgeMessage(subTaskId: string, silentMs: number): string {
+  return `[PSAM] No progress from sub-task ${subTaskId} for ${Math.round(silentMs / 60000)} minutes. ` +
+    `If you are still working, report your current step with psam_report_progress now; if you are stuck, report status "failed" with the reason.`;
+}
+
+// ============================================================================
+// Progress Messages
+// ============================================================================
+
+/** [PSAM-KIND] sub-task-id | body, where the body runs until the next marker or the end of the message */
+const PROGRESS_MARKER_PATTERN = /\[PSAM-(PROGRESS|COMPLETE|FAILED)\][ \t]*([^\s|]+)[ \t]*\|[ \t]*([\s\S]*?)(?=\[PSAM-(?:PROGRESS|COMPLETE|FAILED)\]|$)/g;
+
+/** Body of a progress marker: Step N/M | description (the Chinese README's 步骤 N/M is accepted too) */
+const PROGRESS_STEP_PATTERN = /^(?:Step|步骤)[ \t]*(\d+)[ \t]*\/[ \t]*(\d+)[ \t]*(?:\|[ \t]*([\s\S]*))?$/i;
+
+/**
+ * Extract [PSAM-PROGRESS], [PSAM-COMPLETE] and [PSAM-FAILED] markers from sub-agent output, in order
+ */
+function parseProgressMarkers(text: string): ProgressMarker[] {
+  const markers: ProgressMarker[] = [];
+  for (const match of text.matchAll(PROGRESS_MARKER_PATTERN)) {
+    const [, kind, subTaskId, body] = match;
+    const message = body.trim();
+    if (kind === 'PROGRESS') {
+      const step = message.match(PROGRESS_STEP_PATTERN);
+      if (!step) continue;
+      markers.push({ kind: 'progress', subTaskId, step: Number(step[1]), totalSteps: Number(step[2]), message: (step[3] || '').trim() });
+    } else if (kind === 'COMPLETE') {
+      markers.push({ kind: 'complete', subTaskId, message: message.replace(/^(?:Result|结果)\s*[:：]\s*/i, '') });
+    } else {
+      markers.push({ kind: 'failed', subTaskId, message: message.replace(/^(?:Reason|原因)\s*[:：]\s*/i, '') });
+    }
+  }
+  return markers;
+}
+
+/**
+ * Time spent on each step, from one attempt's timeline entries
+ *
+ * A report for step N marks the end of step N, so step N lasted from the
+ * previous step's report (or the attempt's start) until then. Steps skipped
+ * by the sub-agent are counted as 0 and their time goes to the reported step.
+ * @returns Durations in milliseconds, index = step - 1
+ */
+function deriveStepDurations(entries: ProgressTimelineEntry[], startTime?: number): number[] {
+  const durations: number[] = [];
+  let boundary = startTime ?? entries[0]?.at;
+  let lastStep = 0;
+  for (const entry of entries) {
+    if (entry.step <= lastStep || boundary === undefined) continue;
+    for (let step = lastStep + 1; step < entry.step; step++) durations[step - 1] = 0;
+    durations[entry.step - 1] = Math.max(0, entry.at - boundary);
+    boundary = entry.at;
+    lastStep = entry.step;
+  }
+  return durations;
+}
+
+/**
+ * Timeline of a sub-task for the verbose status view, one line per entry
+ *
+ * Entries of the latest attempt that ended a step show that step's duration.
+ */
+function formatTimeline(subTask: SubTask): string {
+  const latestAttempt = subTask.timeline?.[subTask.timeline.length - 1]?.attempt;
+  const shownDurations = new Set<number>();
+  return (subTask.timeline || []).map(entry => {
+    const duration = entry.attempt === latestAttempt && !shownDurations.has(entry.step)
+      ? subTask.stepDurations?.[entry.step - 1]
+      : undefined;
+    if (duration !== undefined) shownDurations.add(entry.step);
+    return `       ${new Date(entry.at).toISOString().substring(11, 19)} #${entry.attempt} step ${entry.step}/${entry.totalSteps} ${entry.status}` +
+      (duration !== undefined ? ` (${formatDuration(duration)})` : '') +
+      (entry.message ? ` - ${entry.message.substring(0, 60)}${entry.message.length > 60 ? '...' : ''}` : '');
+  }).join('\n');
+}
+
+/**
+ * Validate a psam_report_progress call against the ProgressReport shape
+ * @returns List of validation errors (empty when valid)
+ */
+function validateProgressInput(input: any, totalSteps: number): string[] {
+  const errors: string[] = [];
+  if (!Number.isInteger(input.step) || input.step < 1 || input.step > totalSteps) {
+    errors.push(`step must be an integer from 1 to ${totalSteps}`);
+  }
+  if (!['in_progress', 'completed', 'failed'].includes(input.status)) {
+    errors.push('status must be in_progress, completed or failed');
+  }
+  if (typeof input.message !== 'string' || (input.status === 'failed' && !input.message.trim())) {
+    errors.push(input.status === 'failed' ? 'message must give the failure reason' : 'message must be a string');
+  }
+  if (input.result !== undefined) {
+    if (!input.result || typeof input.result !== 'object' || Array.isArray(input.result)) {
+      errors.push('result must be an object with text, data and files');
+    } else {
+      if (input.result.text !== undefined && typeof input.result.text !== 'string') errors.push('result.text must be a string');
+      if (input.result.files !== undefined && (!Array.isArray(input.result.files) || input.result.files.some((f: any) => typeof f !== 'string'))) {
+        errors.push('result.files must be an array of file paths');
+      }
+    }
+  }
+  if (input.usage !== undefined) {
+    const usage = input.usage;
+    if (!usage || typeof usage !== 'object' ||
+        ['input_tokens', 'output_tokens'].some(key => usage[key] !== undefined && (typeof usage[key] !== 'number' || usage[key] < 0))) {
+      errors.push('usage must be { input_tokens, output_tokens } with non-negative numbers');
+    }
+  }
+  return errors;
+}
+
+/**
+ * Decide how a sub-agent session ended from its last progress report
+ *
+ * A final report (completed or failed) decides. Without one, the session
+ * ended without a report, whatever step it last reached. Completion markers
+ * in messages have already been applied as reports by then.
+ */
+function reconcileSessionEnd(
+  subTask: SubTask,
+  report: ProgressReport | null
+): Pick<SessionEndRecord, 'outcome' | 'source' | 'reason'> {
+  if (report?.status === 'completed') {
+    return { outcome: 'completed', source: 'progress', reason: report.message || 'Sub-agent reported completion' };
+  }
+  if (report?.status === 'failed' || report?.status === 'aborted') {
+    return { outcome: 'failed', source: 'progress', reason: report.message || `Sub-agent reported ${report.status}` };
+  }
+
+  const lastStep = report && Number.isFinite(report.currentStep)
+    ? ` (last report: step ${report.currentStep}/${report.totalSteps || subTask.stepsToExecute.length})`
+    : ' (no progress reported)';
+  return { outcome: 'no_report', source: 'none', reason: `Session ended without a final report${lastStep}` };
+}
+
+/**
+ * Plain text of a message event payload or transcript message (string or content blocks)
+ */
+function messageText(message: any): string {
+  const content = typeof message === 'string' ? message : message?.content;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((block: any) => typeof block === 'string' ? block : (block?.type === 'text' ? block.text : ''))
+      .filter((text: any) => typeof text === 'string')
+      .join('\n');
+  }
+  return '';
+}
+
+// ============================================================================
+// API Capability Detector
+// ============================================================================
+
+/**
+ * Note: The OpenClaw Plugin SDK does not expose internal tools like
+ * sessions_spawn, sessions_send, etc. to plugins at registration time.
+ * Plugin tools can only return results - they cannot directly call other tools.
+ *
+ * The orchestrate tool works around this by returning instructions for the
+ * calling agent to execute sessions_spawn itself.
+ */
+function detectApiCapabilities(): ApiCapabilities {
+  return {
+    sessions_spawn: false,
+    sessions_send: false,
+    sessions_history: false,
+    process_kill: false
+  };
+}
+
 // ============================================================================
 // Plugin Implementation
 // ============================================================================
@@ -891,57 +3934,889 @@ export default {
   register(api: OpenClawPluginApi, config?: Partial<OrchestratorConfig>) {
     const cfg: OrchestratorConfig = { ...DEFAULT_CONFIG, ...config };
 
-    // Load optional configuration file
-    const configFilePath = path.join(path.dirname(__filename), 'config.json');
-    try {
-      if (fs.existsSync(configFilePath)) {
-        const fileConfig = JSON.parse(fs.readFileSync(configFilePath, 'utf-8'));
+    // Load optional configuration file
+    const configFilePath = path.join(path.dirname(__filename), 'config.json');
+    try {
+      if (fs.existsSync(configFilePath)) {
+        const fileConfig = JSON.parse(fs.readFileSync(configFilePath, 'utf-8'));
+
+        // Validate configuration values
+        if (typeof fileConfig.enableAutoCleanup === 'boolean') {
+          cfg.enableAutoCleanup = fileConfig.enableAutoCleanup;
+        }
+        if (typeof fileConfig.cleanupIntervalMs === 'number' && fileConfig.cleanupIntervalMs > 0) {
+          cfg.cleanupIntervalMs = fileConfig.cleanupIntervalMs;
+        }
+        if (typeof fileConfig.sessionTimeoutMs === 'number' && fileConfig.sessionTimeoutMs > 0) {
+          cfg.sessionTimeoutMs = fileConfig.sessionTimeoutMs;
+        }
+        if (typeof fileConfig.autoAbortTimeout === 'boolean') {
+          cfg.autoAbortTimeout = fileConfig.autoAbortTimeout;
+        }
+        if (typeof fileConfig.heartbeatIntervalMs === 'number' && fileConfig.heartbeatIntervalMs >= 0) {
+          cfg.heartbeatIntervalMs = fileConfig.heartbeatIntervalMs;
+        }
+        if (typeof fileConfig.autoNudgeStalled === 'boolean') {
+          cfg.autoNudgeStalled = fileConfig.autoNudgeStalled;
+        }
+        if (typeof fileConfig.requeueOrphaned === 'boolean') {
+          cfg.requeueOrphaned = fileConfig.requeueOrphaned;
+        }
+        if (Number.isInteger(fileConfig.maxConcurrentSubagents) && fileConfig.maxConcurrentSubagents > 0) {
+          cfg.maxConcurrentSubagents = fileConfig.maxConcurrentSubagents;
+        }
+        if (Number.isInteger(fileConfig.maxConcurrentPerProvider) && fileConfig.maxConcurrentPerProvider > 0) {
+          cfg.maxConcurrentPerProvider = fileConfig.maxConcurrentPerProvider;
+        }
+        if (fileConfig.providerLimits && typeof fileConfig.providerLimits === 'object') {
+          cfg.providerLimits = {};
+          for (const [provider, limit] of Object.entries(fileConfig.providerLimits)) {
+            if (Number.isInteger(limit) && (limit as number) > 0) {
+              cfg.providerLimits[provider] = limit as number;
+            }
+          }
+        }
+        if (typeof fileConfig.starvationAgeMs === 'number' && fileConfig.starvationAgeMs > 0) {
+          cfg.starvationAgeMs = fileConfig.starvationAgeMs;
+        }
+        if (typeof fileConfig.releaseTimeoutMs === 'number' && fileConfig.releaseTimeoutMs >= 0) {
+          cfg.releaseTimeoutMs = fileConfig.releaseTimeoutMs;
+        }
+
+        api.logger.info(`Loaded config from ${configFilePath}`);
+      }
+    } catch (error) {
+      api.logger.warn(`Failed to load config file: ${error}`);
+    }
+
+    api.logger.info(`Parallel Sub-Agent Orchestrator plugin loaded`);
+
+    // Note: sessions_spawn and related tools are not accessible through plugin SDK
+    // The orchestrate tool returns instructions for the agent to execute sessions_spawn
+    const capabilities: ApiCapabilities = {
+      sessions_spawn: false,
+      sessions_send: false,
+      sessions_history: false,
+      process_kill: false
+    };
+    api.logger.info(`Plugin SDK does not expose internal tools. Using instruction-based mode.`);
+
+    // Initialize managers
+    const taskManager = new TaskStateManager(cfg.statePath, api.logger);
+    const modelStats = new ModelStats(cfg.logsPath, subTaskId => taskManager.findSubTask(subTaskId), api.logger);
+    const modelSelector = new ModelSelector(cfg.modelsConfigPath, api.logger, modelStats);
+    const activityLogger = new ActivityLogger(cfg.logsPath, api.logger);
+    const progressManager = new ProgressManager(cfg.progressPath, api.logger);
+    const resultStore = new ResultStore(cfg.statePath, api.logger);
+    const dispatchQueue = new DispatchQueue(cfg);
+
+    // Learn model reliability from past runs, then keep it current as events arrive
+    modelStats.rebuild();
+    activityLogger.subscribe(entry => modelStats.ingest(entry));
+
+    // Clean up old tasks on startup (finished progress files go after the recovery pass has read them)
+    try {
+      taskManager.deleteOldTasks();
+    } catch (error) {
+      api.logger.error(`Startup cleanup failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    resultStore.pruneOrphans(taskManager.getAllTasks().map(t => t.id));
+
+    /**
+     * Store the result artifact reported with a sub-task's final progress report
+     * @returns Sub-task fields linking the stored result
+     */
+    const recordResult = (mainTask: MainTask, subTask: SubTask, report: ProgressReport | null): Partial<SubTask> => {
+      if (!report) return {};
+
+      const text = typeof report.result?.text === 'string' ? report.result.text : (report.message || '');
+      const files = Array.isArray(report.result?.files)
+        ? report.result!.files.filter((f: any) => typeof f === 'string')
+        : [];
+      const resultPath = resultStore.save({
+        subTaskId: subTask.id,
+        mainTaskId: mainTask.id,
+        text,
+        data: report.result?.data,
+        files,
+        recordedAt: Date.now()
+      });
+
+      return { result: text, resultPath: resultPath || undefined };
+    };
+
+    /**
+     * Schedule another attempt of a failed sub-task if its task's retry policy allows it
+     * @returns true if a retry was scheduled
+     */
+    const scheduleRetry = (mainTask: MainTask, subTask: SubTask, error?: string): boolean => {
+      const policy = mainTask.retryPolicy;
+      const attempts = subTask.attempts || [];
+      if (!policy || attempts.length >= policy.maxAttempts) return false;
+
+      // Walk the fallback chain, skipping models that already failed this sub-task
+      const tried = attempts.map(a => a.modelId).filter((id): id is string => !!id);
+      const chain = modelSelector.buildFallbackChain(tried[0] || subTask.modelId, subTask.difficulty || 'medium', policy.fallbackModels);
+      // A cost cap only holds while every attempt runs on a priced model
+      const priced = mainTask.budget?.maxCostUsd !== undefined
+        ? (id: string) => !!modelSelector.getPricing(id)
+        : () => true;
+      const nextModel = chain.find(id => !tried.includes(id) && priced(id)) || subTask.modelId;
+      const delayMs = policy.backoffMs * Math.pow(2, attempts.length - 1);
+      const sessionId = subTask.childSessionId || 'N/A';
+
+      progressManager.removeProgress(subTask.id);
+      taskManager.requeueSubTask(subTask.id, nextModel, Date.now() + delayMs, error);
+      activityLogger.logSubagentRetried(mainTask.id, subTask.id, sessionId, nextModel, attempts.length + 1, delayMs, error);
+      return true;
+    };
+
+    /**
+     * Record a failed attempt: retry it per the task's retry policy, otherwise mark the sub-task failed (or aborted)
+     * @returns Resulting sub-task status
+     */
+    const failSubTask = (
+      mainTask: MainTask,
+      subTask: SubTask,
+      error: string,
+      updates: Partial<SubTask> = {},
+      status: 'failed' | 'aborted' = 'failed'
+    ): SubTask['status'] => {
+      const sessionId = subTask.childSessionId || 'N/A';
+      taskManager.recordAttempt(subTask.id, status, error);
+      if (scheduleRetry(mainTask, subTask, error)) {
+        return 'pending';
+      }
+
+      taskManager.updateSubTaskStatus(subTask.id, status, { endTime: Date.now(), errorLog: error, ...updates });
+      if (status === 'aborted') {
+        activityLogger.logSubagentAborted(mainTask.id, subTask.id, sessionId, error);
+      } else {
+        activityLogger.logSubagentFailed(mainTask.id, subTask.id, sessionId, error);
+      }
+      return status;
+    };
+
+    /**
+     * Accept a reported completion, validating the structured result against the sub-task's outcome schema
+     * @returns Resulting sub-task status (completed, invalid_result, or pending when retried)
+     */
+    const completeSubTask = (
+      mainTask: MainTask,
+      subTask: SubTask,
+      report: ProgressReport | null,
+      updates: Partial<SubTask>
+    ): SubTask['status'] => {
+      const resultUpdates = subTask.resultPath ? {} : recordResult(mainTask, subTask, report);
+      const sessionId = subTask.childSessionId || 'N/A';
+
+      if (subTask.outcomeSchema) {
+        const resultPath = resultUpdates.resultPath || subTask.resultPath;
+        const stored = resultPath ? resultStore.read(resultPath) : null;
+        const errors = validateJsonSchema(subTask.outcomeSchema, stored?.data);
+
+        if (errors.length > 0) {
+          const errorLog = `Result does not match expected outcome schema: ${errors.join('; ')}`;
+          taskManager.recordAttempt(subTask.id, 'invalid_result', errorLog);
+          if (scheduleRetry(mainTask, subTask, errorLog)) {
+            return 'pending';
+          }
+
+          taskManager.updateSubTaskStatus(subTask.id, 'invalid_result', {
+            ...updates,
+            ...resultUpdates,
+            validationErrors: errors,
+            errorLog
+          });
+          activityLogger.logSubagentInvalidResult(mainTask.id, subTask.id, sessionId, errors);
+          return 'invalid_result';
+        }
+      }
+
+      taskManager.recordAttempt(subTask.id, 'completed');
+      taskManager.updateSubTaskStatus(subTask.id, 'completed', { ...updates, ...resultUpdates, validationErrors: undefined });
+      activityLogger.logSubagentCompleted(mainTask.id, subTask.id, sessionId, subTask);
+      return 'completed';
+    };
+
+    // ========================================================================
+    // Spawn Instructions
+    // ========================================================================
+
+    /** Build sessions_spawn instructions for a sub-task (prompt + progress protocol + model) */
+    const buildSpawnInstruction = (mainTask: MainTask, subTask: SubTask): SpawnInstruction => {
+      const progressInstructions = progressManager.generateProgressInstructions(
+        subTask.id,
+        subTask.stepsToExecute.length,
+        cfg.progressPath
+      );
+
+      // Combine sub-task prompt with progress instructions
+      const fullTask = `${buildSubTaskPrompt(mainTask, subTask)}\n\n${progressInstructions}`;
+      const modelId = subTask.modelId
+        || modelSelector.selectModel(
+          subTask.difficulty || 'medium',
+          subTask.requiredCapabilities || ['reasoning'],
+          subTask.costPreference || 'medium',
+          subTask.preferredModels
+        )?.id
+        || DEFAULT_MODELS[0].id;
+
+      return {
+        subTaskId: subTask.id,
+        task: fullTask,
+        originalTask: subTask.taskDescription,
+        suggestedModel: modelId,
+        spawnCommand: {
+          tool: "sessions_spawn",
+          params: {
+            task: fullTask,
+            model: modelId
+          }
+        }
+      };
+    };
+
+    /** Format spawn instructions as numbered steps for the calling agent */
+    const formatSpawnSteps = (instructions: SpawnInstruction[]): string =>
+      instructions.map((inst, i) => {
+        const summary = inst.originalTask.split('\n')[0];
+        return `${i + 1}. **${inst.subTaskId}**\n` +
+          `   Task: ${summary.substring(0, 200)}${summary.length > 200 || summary !== inst.originalTask ? '...' : ''}\n` +
+          `   Suggested model: ${inst.suggestedModel}\n` +
+          `   \n` +
+          `   Step A: Execute sessions_spawn and record the returned sessionId\n` +
+          `   Step B: Bind session to sub-task (IMPORTANT!)\n` +
+          `   \n` +
+          `   orchestrate_bind_session({\n` +
+          `     sub_task_id: "${inst.subTaskId}",\n` +
+          `     session_id: "<sessionId from sessions_spawn>"\n` +
+          `   })`;
+      }).join('\n\n') +
+      (instructions.length > 1
+        ? `\n\nOr bind every spawned session in one call:\n` +
+          `   orchestrate_bind_session({ bindings: {\n` +
+          instructions.map(inst => `     "${inst.subTaskId}": "<sessionId>"`).join(',\n') +
+          `\n   } })`
+        : '');
+
+    /**
+     * Mark a main task's releasable sub-tasks from a dispatch plan as released, recording its budget hold
+     * @returns The newly released sub-tasks
+     */
+    const applyDispatch = (mainTask: MainTask, plan: DispatchPlan): SubTask[] => {
+      if (plan.budgetHolds.has(mainTask.id)) {
+        const hold = plan.budgetHolds.get(mainTask.id);
+        if (hold && hold !== mainTask.budgetHold) {
+          api.logger.warn(`Task ${mainTask.id}: ${hold}`);
+          activityLogger.logBudgetExceeded(mainTask.id, 'held', hold);
+        }
+        taskManager.setBudgetHold(mainTask.id, hold);
+      }
+
+      const released = plan.decisions
+        .filter(decision => decision.release && decision.mainTask.id === mainTask.id && !decision.subTask.releasedAt)
+        .map(decision => decision.subTask);
+      taskManager.markReleased(released.map(st => st.id));
+      return released;
+    };
+
+    /**
+     * Rank every ready sub-task across all main tasks against the dispatch limits
+     *
+     * Planning only reads state; applyDispatch records the outcome.
+     */
+    const planDispatch = (): DispatchPlan => {
+      const queued: QueuedSubTask[] = [];
+      const inFlight: SubTask[] = [];
+      const budgetHolds = new Map<string, string | undefined>();
+      for (const mainTask of taskManager.getAllTasks()) {
+        inFlight.push(...taskManager.getInFlightSubTasks(mainTask.id, cfg.releaseTimeoutMs));
+        if (mainTask.frozenAt) continue;
+
+        const ready = taskManager.getReadySubTasks(mainTask.id).filter(st => !st.releasedAt);
+        let affordable = ready;
+        if (mainTask.budget) {
+          const budgeted = withinBudget(mainTask, ready);
+          affordable = budgeted.affordable;
+          budgetHolds.set(mainTask.id, budgeted.hold);
+        }
+        for (const subTask of ready) {
+          // Ready since the task was created, its retry backoff ended, or its last dependency completed
+          const depEnds = (subTask.dependsOn || []).map(depId => mainTask.subTasks.find(dep => dep.id === depId)?.endTime || 0);
+          queued.push({
+            mainTask,
+            subTask,
+            readySince: Math.max(mainTask.createdAt, subTask.retryAfter || 0, ...depEnds),
+            blockedReason: affordable.includes(subTask) ? undefined : 'budget hold'
+          });
+        }
+      }
+      return { decisions: dispatchQueue.plan(queued, inFlight), budgetHolds };
+    };
+
+    /**
+     * Expected usage of one sub-task: the average of its finished siblings, else a default estimate
+     */
+    const estimateUsage = (mainTask: MainTask, subTask: SubTask): Usage => {
+      const pricing = modelSelector.getPricing(subTask.modelId);
+      const finished = mainTask.subTasks.filter(st => st.usage && TERMINAL_SUBTASK_STATUSES.includes(st.status));
+      if (finished.length === 0) {
+        return priceUsage(DEFAULT_SUBTASK_USAGE_ESTIMATE.inputTokens, DEFAULT_SUBTASK_USAGE_ESTIMATE.outputTokens, pricing);
+      }
+
+      const inputTokens = finished.reduce((sum, st) => sum + st.usage!.inputTokens, 0) / finished.length;
+      const outputTokens = finished.reduce((sum, st) => sum + st.usage!.outputTokens, 0) / finished.length;
+      return priceUsage(Math.round(inputTokens), Math.round(outputTokens), pricing);
+    };
+
+    /**
+     * Trim a release wave to what the budget allows
+     *
+     * Projected spend is the actual spend plus the estimated remainder of every
+     * in-flight sub-task; each candidate is added at its estimate until the
+     * projection would cross the budget. Nothing is released once actual spend
+     * has crossed it.
+     * @returns The affordable candidates, and why the rest are held
+     */
+    const withinBudget = (mainTask: MainTask, candidates: SubTask[]): { affordable: SubTask[]; hold?: string } => {
+      if (mainTask.budgetExceededAt) return { affordable: [], hold: mainTask.budgetHold };
+
+      let projected = mainTask.usage;
+      for (const st of taskManager.getInFlightSubTasks(mainTask.id, cfg.releaseTimeoutMs)) {
+        const estimate = estimateUsage(mainTask, st);
+        const sofar = st.attemptUsage;
+        projected = addUsage(projected, {
+          inputTokens: Math.max(0, estimate.inputTokens - (sofar?.inputTokens || 0)),
+          outputTokens: Math.max(0, estimate.outputTokens - (sofar?.outputTokens || 0)),
+          costUsd: Math.max(0, estimate.costUsd - (sofar?.costUsd || 0))
+        });
+      }
+
+      const released: SubTask[] = [];
+      let hold: string | undefined;
+      for (const st of candidates) {
+        const next = addUsage(projected, estimateUsage(mainTask, st));
+        const reason = checkBudget(next, mainTask.budget!);
+        if (reason) {
+          hold = `Projected spend ${reason}; ${candidates.length - released.length} sub-task(s) held`;
+          break;
+        }
+        projected = next;
+        released.push(st);
+      }
+      return { affordable: released, hold };
+    };
+
+    /**
+     * Account a sub-agent's reported usage, flagging its main task once spend crosses the budget
+     */
+    const trackUsage = (subTask: SubTask, report: ProgressReport | null): void => {
+      const usage = report?.usage;
+      if (!usage || typeof usage !== 'object') return;
+
+      const priced = priceUsage(
+        Number(usage.input_tokens) || 0,
+        Number(usage.output_tokens) || 0,
+        modelSelector.getPricing(subTask.modelId)
+      );
+      const reported = typeof usage.cost_usd === 'number' ? { ...priced, costUsd: usage.cost_usd } : priced;
+
+      const mainTask = taskManager.recordUsage(subTask.id, reported);
+      if (!mainTask?.budget) return;
+      const reason = checkBudget(mainTask.usage, mainTask.budget);
+      if (reason && taskManager.markBudgetExceeded(mainTask.id)) {
+        api.logger.warn(`Task ${mainTask.id} is over budget: ${reason}`);
+        activityLogger.logBudgetExceeded(mainTask.id, 'exceeded', reason);
+      }
+    };
+
+    /**
+     * Release the next wave of sub-tasks whose dependencies are satisfied
+     * @param plan Dispatch plan to release from; callers releasing several tasks share one
+     * @returns Spawn instructions for every released sub-task that is not bound to a session yet
+     */
+    const releaseReadySubTasks = (mainTask: MainTask, plan: DispatchPlan = planDispatch()): SpawnInstruction[] => {
+      const newlyReleased = applyDispatch(mainTask, plan);
+      for (const st of newlyReleased) {
+        activityLogger.logSubtaskReleased(mainTask.id, st.id, st.modelId);
+      }
+
+      return taskManager.getReadySubTasks(mainTask.id)
+        .filter(st => st.releasedAt)
+        .map(st => buildSpawnInstruction(mainTask, st));
+    };
+
+    /**
+     * Tell a sub-task's sub-agent to hold or continue
+     *
+     * The hold file is always written (or removed) so the progress protocol
+     * picks it up between steps; a bound session can also be messaged by the
+     * calling agent, since plugins cannot message sessions themselves.
+     * @returns A sessions_send call for the calling agent to make, or null if none is needed
+     */
+    const signalHold = (subTask: SubTask, hold: boolean, reason?: string): string | null => {
+      if (hold) {
+        progressManager.writeHold(subTask.id, reason);
+      } else {
+        progressManager.clearHold(subTask.id);
+      }
+      if (!subTask.childSessionId) return null;
+
+      const message = buildHoldMessage(subTask.id, hold, cfg.progressPath, reason);
+      return `sessions_send({ sessionKey: "${subTask.childSessionId}", message: ${JSON.stringify(message)} })`;
+    };
+
+    /**
+     * Settle the outcome of a sub-task whose session ended before it finished
+     *
+     * The last progress report decides. A session that ended without a final
+     * report is failed (and retried per the task's policy) instead of being
+     * assumed complete. The evidence is kept on the sub-task as sessionEnd,
+     * and the progress file is left in place.
+     * @returns Resulting sub-task status
+     */
+    const reconcileEndedSession = (
+      mainTask: MainTask,
+      subTask: SubTask,
+      sessionId: string,
+      durationMs?: number
+    ): SubTask['status'] => {
+      const lastReport = progressManager.readProgress(subTask.id);
+      trackUsage(subTask, lastReport);
+      if (lastReport) {
+        taskManager.recordProgress(subTask.id, lastReport);
+      }
+
+      const record: SessionEndRecord = {
+        sessionId: subTask.childSessionId || sessionId,
+        endedAt: Date.now(),
+        durationMs,
+        ...reconcileSessionEnd(subTask, lastReport),
+        lastReport: lastReport ? { ...lastReport, result: undefined } : undefined
+      };
+      taskManager.updateSubTaskStatus(subTask.id, subTask.status, { sessionEnd: record });
+      activityLogger.logSessionReconciled(mainTask.id, subTask.id, record);
+
+      if (record.outcome !== 'completed') {
+        return failSubTask(mainTask, subTask, record.reason);
+      }
+
+      const frozenMs = (subTask.frozenMs || 0) + (subTask.frozenAt ? Date.now() - subTask.frozenAt : 0);
+      return completeSubTask(mainTask, subTask, lastReport, {
+        endTime: Date.now(),
+        actualDuration: durationMs !== undefined
+          ? Math.max(0, durationMs - frozenMs)
+          : (subTask.startTime ? activeDuration(subTask) : undefined)
+      });
+    };
+
+    /** Startup recovery pass; its report is shown by orchestrate_status */
+    let recoveryPass: RecoveryReport | undefined;
+
+    /**
+     * Reconcile sub-tasks the loaded state still shows as running (or orphaned) against their progress evidence
+     *
+     * Run once at startup, since a restart may have taken the sub-agent sessions
+     * with it. A final progress report settles the sub-task; an in-progress
+     * report within the heartbeat interval shows it is alive. Anything else is
+     * orphaned, and re-queued for a new attempt when requeueOrphaned is set.
+     */
+    const recoverState = (): RecoveryReport => {
+      const now = Date.now();
+      const silenceLimit = cfg.heartbeatIntervalMs || 10 * 60 * 1000;
+      const report: RecoveryReport = { ranAt: now, checked: 0, alive: [], recovered: [], orphaned: [], requeued: [], awaitingBind: [] };
+
+      for (const mainTask of taskManager.getAllTasks()) {
+        if (mainTask.completedAt) continue;
+        for (const subTask of mainTask.subTasks) {
+          if (subTask.status === 'pending' && subTask.releasedAt && !subTask.childSessionId) {
+            report.awaitingBind.push(subTask.id);
+          }
+          // Orphans from an earlier restart are checked again, so enabling requeueOrphaned picks them up
+          if (!LIVE_SUBTASK_STATUSES.includes(subTask.status) && subTask.status !== 'orphaned') continue;
+          report.checked++;
+
+          const progress = progressManager.readProgress(subTask.id);
+          if (progress && progress.status !== 'in_progress' && subTask.childSessionId) {
+            const status = reconcileEndedSession(mainTask, subTask, subTask.childSessionId);
+            report.recovered.push({ subTaskId: subTask.id, status });
+            continue;
+          }
+
+          const alive = !!progress && now - lastHeartbeat(subTask, progress) <= silenceLimit;
+          if (alive) {
+            report.alive.push(subTask.id);
+            continue;
+          }
+
+          if (subTask.status === 'orphaned' && !cfg.requeueOrphaned) {
+            report.orphaned.push(subTask.id);
+            continue;
+          }
+
+          const sessionId = subTask.childSessionId;
+          if (cfg.requeueOrphaned) {
+            const attempts = taskManager.recordAttempt(subTask.id, 'orphaned', ORPHANED_REASON);
+            taskManager.requeueSubTask(subTask.id, subTask.modelId, now, ORPHANED_REASON);
+            progressManager.removeProgress(subTask.id);
+            activityLogger.logSubagentRetried(mainTask.id, subTask.id, sessionId || 'N/A', subTask.modelId, attempts + 1, 0, ORPHANED_REASON);
+            report.requeued.push(subTask.id);
+          } else {
+            taskManager.updateSubTaskStatus(subTask.id, 'orphaned', { orphanedAt: now });
+            report.orphaned.push(subTask.id);
+          }
+          activityLogger.logSubtaskOrphaned(mainTask.id, subTask.id, sessionId, cfg.requeueOrphaned);
+        }
+      }
+
+      if (report.checked > 0 || report.awaitingBind.length > 0) {
+        api.logger.info(`Startup recovery: ${report.checked} sub-task(s) checked, ${report.alive.length} alive, ` +
+          `${report.recovered.length} settled, ${report.orphaned.length} orphaned, ${report.requeued.length} re-queued`);
+      }
+      return report;
+    };
+
+    /**
+     * Project an unfinished sub-task's finish (read-only)
+     */
+    const projectEta = (subTask: SubTask, now: number = Date.now()): Eta | undefined => {
+      if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status) || subTask.status === 'orphaned') return undefined;
+      const learned = modelStats.estimate(subTask.modelId, subTask.stepsToExecute.length, subTask.kind);
+      return estimateSubTaskEta(subTask, learned, now);
+    };
+
+    /**
+     * Store a sub-task's estimated run time after a progress report
+     */
+    const refreshEta = (subTask: SubTask): Eta | undefined => {
+      const now = Date.now();
+      const eta = projectEta(subTask, now);
+      // Rounded to the second so unchanged estimates are not re-saved
+      const estimatedDuration = eta ? Math.round((activeDuration(subTask, now) + eta.finishAt - now) / 1000) * 1000 : undefined;
+      if (estimatedDuration !== subTask.estimatedDuration) {
+        taskManager.updateSubTaskStatus(subTask.id, subTask.status, { estimatedDuration });
+      }
+      return eta;
+    };
+
+    /**
+     * Apply one progress report from the psam_report_progress tool or a message marker
+     * @returns Resulting sub-task status
+     */
+    const applyProgressReport = (mainTask: MainTask, subTask: SubTask, report: ProgressReport): SubTask['status'] => {
+      if (report.status === 'in_progress') {
+        trackUsage(subTask, report);
+        // Reporting before the session was bound still means the sub-agent is running; a report ends a stall or orphaning
+        const status = ['pending', 'stalled', 'orphaned'].includes(subTask.status) ? 'running' : subTask.status;
+        taskManager.updateSubTaskStatus(subTask.id, status,
+          subTask.status === 'pending' ? { startTime: Date.now() } : {});
+        taskManager.recordProgress(subTask.id, report);
+        progressManager.mergeProgress(report);
+        refreshEta(subTask);
+        return status;
+      }
+
+      // A progress file written alongside may carry structured results and usage
+      const existing = progressManager.readProgress(subTask.id);
+      const merged: ProgressReport = {
+        ...existing,
+        ...report,
+        result: report.result || existing?.result || (report.status === 'completed' ? { text: report.message } : undefined),
+        usage: report.usage || existing?.usage
+      };
+      trackUsage(subTask, merged);
+      taskManager.recordProgress(subTask.id, report);
+      if (report.status === 'completed') {
+        completeSubTask(mainTask, subTask, merged, {
+          endTime: Date.now(),
+          actualDuration: subTask.startTime ? activeDuration(subTask) : undefined
+        });
+      } else {
+        failSubTask(mainTask, subTask, report.message || 'Sub-agent reported failure');
+      }
+      // The outcome now lives in the task state and result store
+      progressManager.removeProgress(subTask.id);
+      progressManager.clearHold(subTask.id);
+
+      if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) {
+        const released = releaseReadySubTasks(mainTask);
+        if (released.length > 0) {
+          api.logger.info?.(`${released.length} sub-task(s) of ${mainTask.id} ready to spawn: ${released.map(inst => inst.subTaskId).join(', ')}`);
+        }
+      }
+      return subTask.status;
+    };
+
+    /**
+     * Check the heartbeat of every running or stalled sub-task
+     *
+     * A running sub-task silent for longer than heartbeatIntervalMs becomes
+     * stalled; a stalled one with a fresh heartbeat runs again. With
+     * autoNudgeStalled, each stalled sub-agent is asked once to report progress
+     * through a sessions_send call returned to the caller (only when
+     * withInstructions is set; plugins cannot message sessions themselves).
+     * @returns Sub-tasks that stalled during this check, plus any with a nudge call to make
+     */
+    const checkHeartbeats = (withInstructions: boolean): StallNotice[] => {
+      if (!(cfg.heartbeatIntervalMs > 0)) return [];
+
+      const now = Date.now();
+      const notices: StallNotice[] = [];
+      for (const mainTask of taskManager.getAllTasks()) {
+        for (const subTask of mainTask.subTasks) {
+          if (!LIVE_SUBTASK_STATUSES.includes(subTask.status)) continue;
+
+          const report = progressManager.readProgress(subTask.id);
+          const silentMs = now - lastHeartbeat(subTask, report);
+          if (silentMs <= cfg.heartbeatIntervalMs) {
+            if (subTask.status === 'stalled') {
+              taskManager.updateSubTaskStatus(subTask.id, 'running');
+              api.logger.info?.(`Sub-task ${subTask.id} is reporting again`);
+            }
+            continue;
+          }
+
+          const notice: StallNotice = { mainTaskId: mainTask.id, subTaskId: subTask.id, sessionId: subTask.childSessionId, silentMs };
+          const newlyStalled = subTask.status === 'running';
+          if (newlyStalled) {
+            taskManager.updateSubTaskStatus(subTask.id, 'stalled', { stalledAt: now });
+            activityLogger.logSubtaskStalled(mainTask.id, subTask.id, subTask.childSessionId, silentMs, report?.currentStep);
+            api.logger.warn(`Sub-task ${subTask.id} stalled: no progress for ${Math.round(silentMs / 60000)}min`);
+          }
 
-        // Validate configuration values
-        if (typeof fileConfig.enableAutoCleanup === 'boolean') {
-          cfg.enableAutoCleanup = fileConfig.enableAutoCleanup;
-        }
-        if (typeof fileConfig.cleanupIntervalMs === 'number' && fileConfig.cleanupIntervalMs > 0) {
-          cfg.cleanupIntervalMs = fileConfig.cleanupIntervalMs;
+          if (cfg.autoNudgeStalled && withInstructions && !subTask.nudgedAt && subTask.childSessionId) {
+            const message = buildNudgeMessage(subTask.id, silentMs);
+            notice.nudge = `sessions_send({ sessionKey: "${subTask.childSessionId}", message: ${JSON.stringify(message)} })`;
+            taskManager.updateSubTaskStatus(subTask.id, 'stalled', { nudgedAt: now });
+          }
+
+          if (newlyStalled || notice.nudge) {
+            notices.push(notice);
+          }
         }
-        if (typeof fileConfig.sessionTimeoutMs === 'number' && fileConfig.sessionTimeoutMs > 0) {
-          cfg.sessionTimeoutMs = fileConfig.sessionTimeoutMs;
+      }
+      return notices;
+    };
+
+    /**
+     * Apply the progress files of the given main tasks' active sub-tasks
+     *
+     * Runs on every orchestrate_status call and before each periodic heartbeat
+     * check, so file-only sub-agents are tracked between status calls.
+     */
+    const ingestProgressFiles = (tasks: MainTask[]): void => {
+      for (const task of tasks) {
+        for (const subTask of task.subTasks) {
+          const currentStatus = subTask.status;
+          if (!(LIVE_SUBTASK_STATUSES.includes(currentStatus) || currentStatus === 'pending' || currentStatus === 'frozen' || currentStatus === 'orphaned')) continue;
+          // A sub-task nobody has released or bound has no sub-agent to report on it
+          if (currentStatus === 'pending' && !subTask.releasedAt && !subTask.childSessionId) continue;
+
+          const progressReport = progressManager.readProgress(subTask.id);
+          // An orphan's progress file from before the restart is no sign of life
+          const stale = currentStatus === 'orphaned' && !((progressReport?.timestamp || 0) > (subTask.orphanedAt || 0));
+          if (!progressReport || stale) continue;
+
+          trackUsage(subTask, progressReport);
+          // A progress file showing in_progress means the sub-agent is running
+          if ((currentStatus === 'pending' || currentStatus === 'orphaned') && progressReport.status === 'in_progress') {
+            taskManager.updateSubTaskStatus(subTask.id, 'running', currentStatus === 'pending' ? { startTime: Date.now() } : {});
+          }
+          if (taskManager.recordProgress(subTask.id, progressReport)) refreshEta(subTask);
+          const reportStatus = progressReport.status;
+          // Update status based on progress file
+          if (reportStatus === 'completed') {
+            completeSubTask(task, subTask, progressReport, {
+              endTime: Date.now(),
+              actualDuration: subTask.startTime ? activeDuration(subTask) : undefined
+            });
+          } else if (reportStatus === 'failed') {
+            failSubTask(task, subTask, progressReport.message);
+          }
+          // A paused sub-agent may still finish the step it was on
+          if (currentStatus === 'frozen' && subTask.status !== 'frozen') {
+            progressManager.clearHold(subTask.id);
+          }
         }
-        if (typeof fileConfig.autoAbortTimeout === 'boolean') {
-          cfg.autoAbortTimeout = fileConfig.autoAbortTimeout;
+      }
+    };
+
+    /**
+     * Apply [PSAM-*] markers found in a session's output to the sub-task bound to that session
+     *
+     * Markers naming any other sub-task are ignored, so a session can only
+     * report on its own work. Progress markers behind the sub-task's current
+     * step are stale and skipped.
+     * @returns Number of markers applied
+     */
+    const applyProgressMarkers = (sessionKey: string | undefined, text: string): number => {
+      if (!sessionKey || !text.includes('[PSAM-')) return 0;
+      const markers = parseProgressMarkers(text);
+      if (markers.length === 0) return 0;
+
+      const lookup = taskManager.resolveSession(sessionKey);
+      if (!lookup.success) {
+        api.logger.debug?.(`Ignoring ${markers.length} progress marker(s) from session ${sessionKey}: ${lookup.error}`);
+        return 0;
+      }
+      const { mainTask, subTask } = lookup.match!;
+
+      let applied = 0;
+      for (const marker of markers) {
+        if (marker.subTaskId !== subTask.id) {
+          api.logger.warn(`Ignoring ${marker.kind} marker for ${marker.subTaskId} from session ${sessionKey}, which is bound to ${subTask.id}`);
+          continue;
         }
+        if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) break;
+
+        const totalSteps = marker.totalSteps || subTask.stepsToExecute.length;
+        const step = marker.kind === 'progress' ? Math.max(1, Math.min(marker.step!, totalSteps)) : totalSteps;
+        if (marker.kind === 'progress' && step < subTask.currentStepIndex + 1) continue;
+        applyProgressReport(mainTask, subTask, {
+          subTaskId: subTask.id,
+          mainTaskId: mainTask.id,
+          currentStep: step,
+          totalSteps,
+          status: marker.kind === 'progress' ? 'in_progress' : (marker.kind === 'complete' ? 'completed' : 'failed'),
+          message: marker.message,
+          timestamp: Date.now(),
+          percentage: marker.kind === 'complete' ? 100 : Math.round(step / totalSteps * 100)
+        });
+        applied++;
+      }
+      return applied;
+    };
 
-        api.logger.info(`Loaded config from ${configFilePath}`);
+    /**
+     * Bind a spawned session to a sub-task; with rebind, its current session is unbound first
+     */
+    const bindSession = (subTaskId: string, sessionId: string, rebind: boolean): BindResult => {
+      const mainTask = taskManager.getAllTasks().find(t => t.subTasks.some(st => st.id === subTaskId));
+      const subTask = mainTask?.subTasks.find(st => st.id === subTaskId);
+      if (!mainTask || !subTask) {
+        return { success: false, subTaskId, sessionId, error: "SUBTASK_NOT_FOUND", message: `Error: Sub-task ${subTaskId} not found` };
       }
-    } catch (error) {
-      api.logger.warn(`Failed to load config file: ${error}`);
-    }
+      if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) {
+        return { success: false, subTaskId, sessionId, error: "SUBTASK_NOT_ACTIVE", message: `Error: Sub-task ${subTaskId} is already ${subTask.status}` };
+      }
+      const parsed = SessionRegistry.parse(sessionId);
+      if (!parsed) {
+        return { success: false, subTaskId, sessionId, error: "INVALID_SESSION_ID", message: `Error: Session ID is empty` };
+      }
+      sessionId = parsed.key;
 
-    api.logger.info(`Parallel Sub-Agent Orchestrator plugin loaded`);
+      // The session must not resolve to any other sub-task, by full key or by UUID
+      const owner = taskManager.resolveSession(sessionId);
+      if (owner.match?.subTask.id === subTaskId) {
+        return { success: true, subTaskId, sessionId, mainTaskId: mainTask.id, status: subTask.status };
+      }
+      if (owner.code !== 'SESSION_NOT_FOUND') {
+        const ownerIds = owner.matches || [owner.match!.subTask.id];
+        return {
+          success: false, subTaskId, sessionId, error: "SESSION_ALREADY_BOUND",
+          message: `Error: Session ${sessionId} is already bound to sub-task ${ownerIds.join(', ')}`
+        };
+      }
 
-    // Note: sessions_spawn and related tools are not accessible through plugin SDK
-    // The orchestrate tool returns instructions for the agent to execute sessions_spawn
-    const capabilities: ApiCapabilities = {
-      sessions_spawn: false,
-      sessions_send: false,
-      sessions_history: false,
-      process_kill: false
-    };
-    api.logger.info(`Plugin SDK does not expose internal tools. Using instruction-based mode.`);
+      // Check if already bound
+      if (subTask.childSessionId && !rebind) {
+        return {
+          success: false, subTaskId, sessionId, error: "ALREADY_BOUND", currentSession: subTask.childSessionId,
+          message: `Sub-task ${subTaskId} already bound to session ${subTask.childSessionId}\nUse action "rebind" to replace it, or "unbind" first.`
+        };
+      }
 
-    // Initialize managers
-    const taskManager = new TaskStateManager(cfg.statePath, api.logger);
-    const modelSelector = new ModelSelector(cfg.modelsConfigPath, api.logger);
-    const activityLogger = new ActivityLogger(cfg.logsPath, api.logger);
-    const progressManager = new ProgressManager(cfg.progressPath, api.logger);
+      // Check upstream dependencies
+      const unmetDeps = (subTask.dependsOn || []).filter(depId =>
+        mainTask.subTasks.find(dep => dep.id === depId)?.status !== 'completed'
+      );
+      if (unmetDeps.length > 0) {
+        return {
+          success: false, subTaskId, sessionId, error: "DEPENDENCIES_NOT_MET", waitingOn: unmetDeps,
+          message: `Sub-task ${subTaskId} is waiting on dependencies: ${unmetDeps.join(', ')}\nSpawn it after they complete.`
+        };
+      }
 
-    // Clean up old tasks on startup
-    taskManager.deleteOldTasks();
-    progressManager.cleanupCompletedProgress();
+      // A retry waits out its backoff before a new attempt may start
+      if (!subTask.childSessionId && subTask.retryAfter && subTask.retryAfter > Date.now()) {
+        const waitSeconds = Math.ceil((subTask.retryAfter - Date.now()) / 1000);
+        return {
+          success: false, subTaskId, sessionId, error: "RETRY_BACKOFF", retryAfter: subTask.retryAfter,
+          message: `Sub-task ${subTaskId} is backing off before its next attempt; retry in ${waitSeconds}s.\nSpawn it once it appears under "Ready to spawn".`
+        };
+      }
+
+      // Only the dispatch queue starts new work, so the concurrency limits hold
+      if (!subTask.childSessionId && !subTask.releasedAt) {
+        return {
+          success: false, subTaskId, sessionId, error: "QUEUED",
+          message: `Sub-task ${subTaskId} has not been released by the dispatch queue yet.\nSpawn it once it appears under "Ready to spawn" in orchestrate_status.`
+        };
+      }
+
+      let previousSessionId: string | undefined;
+      if (subTask.childSessionId) {
+        previousSessionId = taskManager.unbindSession(subTaskId).previousSessionId;
+        progressManager.removeProgress(subTaskId);
+        activityLogger.logSessionUnbound(mainTask.id, subTaskId, previousSessionId!);
+      }
+
+      // A sub-task paused after its spawn instructions went out stays paused; its sub-agent is told to hold
+      const frozen = subTask.status === 'frozen';
+
+      // Bind session
+      const now = Date.now();
+      taskManager.updateSubTaskStatus(subTaskId, frozen ? 'frozen' : 'running', {
+        childSessionId: sessionId,
+        startTime: now,
+        frozenMs: undefined,
+        ...(frozen ? { frozenFrom: 'running' as const, frozenAt: now } : {})
+      });
+      if (frozen) {
+        progressManager.writeHold(subTaskId, mainTask.frozenReason);
+      }
+
+      activityLogger.log({
+        event_type: 'subagent_spawned',
+        task_id: mainTask.id,
+        sub_task_id: subTaskId,
+        child_session_id: sessionId,
+        status: 'bound'
+      });
+
+      return { success: true, subTaskId, sessionId, mainTaskId: mainTask.id, status: frozen ? 'frozen' : 'running', previousSessionId };
+    };
 
     // ========================================================================
     // Tool Schemas (TypeBox)
     // ========================================================================
+    const CostPreferenceSchema = Type.Union([
+      Type.Literal("low"),
+      Type.Literal("medium"),
+      Type.Literal("high")
+    ], { description: "Cost preference for model selection" });
+
+    const SubTaskPlanSchema = Type.Object({
+      description: Type.String({ description: "The slice of work this sub-task is responsible for" }),
+      role_prompt: Type.Optional(Type.String({ description: "Role prompt for the sub-agent" })),
+      steps_to_execute: Type.Optional(Type.Array(Type.String(), { description: "Ordered steps the sub-agent should execute" })),
+      expected_outcome: Type.Optional(Type.Union([
+        Type.String(),
+        Type.Record(Type.String(), Type.Unknown())
+      ], { description: "Expected deliverable: free text, or a JSON Schema the structured result (result.data) must satisfy" })),
+      difficulty: Type.Optional(Type.Union([
+        Type.Literal("basic"),
+        Type.Literal("medium"),
+        Type.Literal("complex")
+      ], { description: "Sub-task difficulty (used for model selection, default: from task priority)" })),
+      capabilities: Type.Optional(Type.Array(Type.String(), { description: "Model capabilities this sub-task needs (keys of a model's capabilities in models.json)" })),
+      cost: Type.Optional(CostPreferenceSchema),
+      models: Type.Optional(Type.String({ description: "Comma-separated model hints for this sub-task" })),
+      key: Type.Optional(Type.String({ description: "Key referenced by other entries' depends_on (default: 1-based position)" })),
+      depends_on: Type.Optional(Type.Array(Type.String(), { description: "Keys of sub-tasks that must complete first" }))
+    }, { additionalProperties: false });
+
     const OrchestrateSchema = Type.Object({
       task_description: Type.String({ description: "Description of the complex task to execute" }),
       models: Type.Optional(Type.String({ description: "Comma-separated list of allowed models" })),
@@ -950,7 +4825,54 @@ export default {
         Type.Literal("medium"),
         Type.Literal("low")
       ], { description: "Task priority" })),
-      subtask_count: Type.Optional(Type.Number({ description: "Expected number of sub-tasks (1-5)", minimum: 1, maximum: 5 }))
+      subtask_count: Type.Optional(Type.Number({ description: "Expected number of sub-tasks (1-5)", minimum: 1, maximum: 5 })),
+      subtasks: Type.Optional(Type.Array(SubTaskPlanSchema, {
+        description: "Explicit sub-task plan (overrides subtask_count)",
+        minItems: 1,
+        maxItems: 5
+      })),
+      items: Type.Optional(Type.Array(Type.String(), {
+        description: "Fan-out input list: each item becomes its own sub-task (conflicts with subtasks)",
+        minItems: 1,
+        maxItems: MAX_FANOUT_ITEMS
+      })),
+      description_template: Type.Optional(Type.String({
+        description: "Sub-task description for each item; {item} and {index} are substituted (default: task_description + item)"
+      })),
+      max_concurrency: Type.Optional(Type.Number({
+        description: "Max sub-agents in flight at once; the rest are released in waves (default: 5 with items, otherwise unlimited)",
+        minimum: 1,
+        maximum: 50
+      })),
+      on_dependency_failure: Type.Optional(Type.Union([
+        Type.Literal("skip"),
+        Type.Literal("fail")
+      ], { description: "What happens to dependents when an upstream sub-task fails (default: skip)" })),
+      reduce: Type.Optional(Type.Object({
+        description: Type.String({ description: "How to merge the sub-task results into one deliverable" }),
+        role_prompt: Type.Optional(Type.String({ description: "Role prompt for the aggregation sub-agent" })),
+        expected_outcome: Type.Optional(Type.Union([
+          Type.String(),
+          Type.Record(Type.String(), Type.Unknown())
+        ], { description: "Expected merged deliverable: free text, or a JSON Schema for result.data" })),
+        difficulty: Type.Optional(Type.Union([
+          Type.Literal("basic"),
+          Type.Literal("medium"),
+          Type.Literal("complex")
+        ], { description: "Aggregation difficulty (default: complex)" })),
+        capabilities: Type.Optional(Type.Array(Type.String(), { description: "Model capabilities the aggregation sub-task needs" })),
+        cost: Type.Optional(CostPreferenceSchema),
+        models: Type.Optional(Type.String({ description: "Comma-separated model hints for the aggregation sub-task" }))
+      }, { additionalProperties: false, description: "Optional reduce stage, created automatically once all sub-tasks complete" })),
+      retry: Type.Optional(Type.Object({
+        max_attempts: Type.Number({ description: "Total attempts per sub-task, including the first (1-5)", minimum: 1, maximum: MAX_RETRY_ATTEMPTS }),
+        backoff_seconds: Type.Optional(Type.Number({ description: "Delay before the first retry, doubled for each further retry (default: 30)", minimum: 0, maximum: 3600 })),
+        fallback_models: Type.Optional(Type.String({ description: "Comma-separated models to try on retries, in order" }))
+      }, { additionalProperties: false, description: "Retry policy for failed sub-tasks" })),
+      budget: Type.Optional(Type.Object({
+        max_cost_usd: Type.Optional(Type.Number({ description: "Spend cap in USD", minimum: 0 })),
+        max_tokens: Type.Optional(Type.Number({ description: "Cap on input + output tokens across all sub-tasks", minimum: 0 }))
+      }, { additionalProperties: false, description: "Spend caps; no new sub-tasks are released once projected or actual spend crosses them" }))
     }, { additionalProperties: false });
 
     const OrchestrateStatusSchema = Type.Object({
@@ -961,14 +4883,56 @@ export default {
         Type.Literal("running"),
         Type.Literal("completed"),
         Type.Literal("failed"),
-        Type.Literal("aborted")
-      ], { description: "Filter by status" }))
+        Type.Literal("aborted"),
+        Type.Literal("frozen"),
+        Type.Literal("stalled"),
+        Type.Literal("orphaned"),
+        Type.Literal("skipped"),
+        Type.Literal("invalid_result")
+      ], { description: "Filter by status (sub-task statuses match tasks with a sub-task in that status)" })),
+      verbose: Type.Optional(Type.Boolean({ description: "Show each sub-task's progress timeline and step durations" }))
     }, { additionalProperties: false });
 
     const OrchestrateAbortSchema = Type.Object({
       session_id: Type.String({ description: "Sub-agent session ID to abort" })
     }, { additionalProperties: false });
 
+    const OrchestrateCancelSchema = Type.Object({
+      task: Type.String({ description: "Main task ID to cancel" }),
+      reason: Type.Optional(Type.String({ description: "Why the task is cancelled (recorded on every aborted sub-task)" }))
+    }, { additionalProperties: false });
+
+    const OrchestratePauseSchema = Type.Object({
+      task: Type.Optional(Type.String({ description: "Main task ID (pauses all its pending and running sub-tasks)" })),
+      sub_task: Type.Optional(Type.String({ description: "Sub-task ID" })),
+      reason: Type.Optional(Type.String({ description: "Why the work is paused (passed on to the sub-agents)" }))
+    }, { additionalProperties: false });
+
+    const OrchestrateResumeSchema = Type.Object({
+      task: Type.Optional(Type.String({ description: "Main task ID (resumes all its paused sub-tasks)" })),
+      sub_task: Type.Optional(Type.String({ description: "Sub-task ID" }))
+    }, { additionalProperties: false });
+
+    const ReportProgressSchema = Type.Object({
+      sub_task_id: Type.String({ description: "Your sub-task ID (given in your task)" }),
+      step: Type.Integer({ minimum: 1, description: "Step you just completed (1-based)" }),
+      status: Type.Union([
+        Type.Literal("in_progress"),
+        Type.Literal("completed"),
+        Type.Literal("failed")
+      ], { description: "in_progress after each step, completed or failed at the end" }),
+      message: Type.String({ description: "What you just did, your result summary, or the failure reason" }),
+      result: Type.Optional(Type.Object({
+        text: Type.Optional(Type.String({ description: "Full result of your sub-task" })),
+        data: Type.Optional(Type.Unknown({ description: "Structured result, if any" })),
+        files: Type.Optional(Type.Array(Type.String(), { description: "Absolute paths of files you produced" }))
+      }, { description: "Your deliverable, with status completed" })),
+      usage: Type.Optional(Type.Object({
+        input_tokens: Type.Optional(Type.Number({ minimum: 0 })),
+        output_tokens: Type.Optional(Type.Number({ minimum: 0 }))
+      }, { description: "Token totals of your session so far" }))
+    }, { additionalProperties: false });
+
     const OrchestrateInjectSchema = Type.Object({
       session_id: Type.String({ description: "Target sub-agent session ID" }),
       message: Type.String({ description: "Message content to inject" })
@@ -991,12 +4955,44 @@ export default {
       ], { description: "Action type" })),
       model_id: Type.Optional(Type.String({ description: "Model ID" })),
       models: Type.Optional(Type.String({ description: "Comma-separated model list (for replace)" })),
-      note: Type.Optional(Type.String({ description: "Note or comment" }))
+      note: Type.Optional(Type.String({ description: "Note or comment" })),
+      pricing: Type.Optional(Type.Object({
+        input_per_mtok: Type.Number({ description: "USD per million input tokens", minimum: 0 }),
+        output_per_mtok: Type.Number({ description: "USD per million output tokens", minimum: 0 })
+      }, { additionalProperties: false, description: "Model pricing (for add)" })),
+      explain: Type.Optional(Type.Object({
+        difficulty: Type.Optional(Type.Union([
+          Type.Literal("basic"),
+          Type.Literal("medium"),
+          Type.Literal("complex")
+        ], { description: "Sub-task difficulty (default: medium)" })),
+        capabilities: Type.Optional(Type.Array(Type.String(), { description: "Required model capabilities (default: reasoning)" })),
+        cost: Type.Optional(CostPreferenceSchema),
+        models: Type.Optional(Type.String({ description: "Comma-separated model hints" })),
+        limit: Type.Optional(Type.Integer({ minimum: 1, description: "Number of ranked models to show (default: 5)" }))
+      }, { additionalProperties: false, description: "Hypothetical sub-task requirements; list ranks the models against them and explains each score" }))
+    }, { additionalProperties: false });
+
+    const OrchestrateResultsSchema = Type.Object({
+      task: Type.Optional(Type.String({ description: "Main task ID (returns results of all its sub-tasks)" })),
+      sub_task: Type.Optional(Type.String({ description: "Sub-task ID" })),
+      mode: Type.Optional(Type.Union([
+        Type.Literal("summary"),
+        Type.Literal("full")
+      ], { description: "summary (default) truncates text and lists data keys; full returns everything" }))
     }, { additionalProperties: false });
 
     const OrchestrateBindSessionSchema = Type.Object({
-      sub_task_id: Type.String({ description: "Sub-task ID" }),
-      session_id: Type.String({ description: "Sub-agent session ID (returned by sessions_spawn)" })
+      action: Type.Optional(Type.Union([
+        Type.Literal("bind"),
+        Type.Literal("unbind"),
+        Type.Literal("rebind")
+      ], { description: "bind (default), unbind the current session, or rebind to a new session" })),
+      sub_task_id: Type.Optional(Type.String({ description: "Sub-task ID" })),
+      session_id: Type.Optional(Type.String({ description: "Sub-agent session ID (returned by sessions_spawn)" })),
+      bindings: Type.Optional(Type.Record(Type.String(), Type.String(), {
+        description: "Map of sub-task ID to session ID, to bind several spawned sessions in one call"
+      }))
     }, { additionalProperties: false });
 
     // Check timeouts tool parameter schema
@@ -1035,110 +5031,330 @@ export default {
       description: "Start an orchestration task, decompose complex task into sub-tasks and return execution instructions",
       parameters: OrchestrateSchema,
       execute: async (_toolCallId, params) => {
-        const { task_description, models, priority = 'medium', subtask_count = 1 } = params as any;
+        const {
+          task_description,
+          models,
+          priority = 'medium',
+          subtask_count = 1,
+          subtasks,
+          items,
+          description_template,
+          max_concurrency,
+          on_dependency_failure = 'skip',
+          reduce,
+          retry,
+          budget
+        } = params as any;
+
+        if (subtasks !== undefined && items !== undefined) {
+          return {
+            content: [{ type: "text", text: "Error: subtasks and items cannot be combined. Use items for fan-out or subtasks for an explicit plan." }],
+            details: { error: "CONFLICTING_PARAMETERS" }
+          };
+        }
 
-        try {
-          // Create main task
-          const mainTask = taskManager.createMainTask(task_description, priority);
-          activityLogger.logTaskDispatched(mainTask.id, task_description, priority);
+        if (max_concurrency !== undefined && (!Number.isInteger(max_concurrency) || max_concurrency < 1 || max_concurrency > 50)) {
+          return {
+            content: [{ type: "text", text: "Error: max_concurrency must be an integer between 1 and 50." }],
+            details: { error: "INVALID_CONCURRENCY", max_concurrency }
+          };
+        }
+
+        if (retry !== undefined) {
+          const validRetry = retry && typeof retry === 'object' &&
+            Number.isInteger(retry.max_attempts) && retry.max_attempts >= 1 && retry.max_attempts <= MAX_RETRY_ATTEMPTS &&
+            (retry.backoff_seconds === undefined || (typeof retry.backoff_seconds === 'number' && retry.backoff_seconds >= 0 && retry.backoff_seconds <= 3600)) &&
+            (retry.fallback_models === undefined || typeof retry.fallback_models === 'string');
+          if (!validRetry) {
+            return {
+              content: [{ type: "text", text: `Error: Invalid retry policy. max_attempts must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}, backoff_seconds between 0 and 3600, fallback_models a comma-separated string.` }],
+              details: { error: "INVALID_RETRY_POLICY", retry }
+            };
+          }
+        }
+
+        if (budget !== undefined) {
+          const validCap = (cap: any) => cap === undefined || (typeof cap === 'number' && Number.isFinite(cap) && cap >= 0);
+          const validBudget = budget && typeof budget === 'object' &&
+            (budget.max_cost_usd !== undefined || budget.max_tokens !== undefined) &&
+            validCap(budget.max_cost_usd) && validCap(budget.max_tokens);
+          if (!validBudget) {
+            return {
+              content: [{ type: "text", text: `Error: Invalid budget. Set max_cost_usd and/or max_tokens to a non-negative number.` }],
+              details: { error: "INVALID_BUDGET", budget }
+            };
+          }
+        }
+
+        if (reduce !== undefined) {
+          const reduceErrors = validateReducePlan(reduce);
+          if (reduceErrors.length > 0) {
+            return {
+              content: [{ type: "text", text: `Error: Invalid reduce stage:\n${reduceErrors.map(e => `  - ${e}`).join('\n')}` }],
+              details: { error: "INVALID_REDUCE", errors: reduceErrors }
+            };
+          }
+        }
 
+        // Validate fan-out items before creating any state
+        if (items !== undefined) {
+          const itemErrors = validateFanOutItems(items, description_template);
+          if (itemErrors.length > 0) {
+            return {
+              content: [{ type: "text", text: `Error: Invalid fan-out items:\n${itemErrors.map(e => `  - ${e}`).join('\n')}` }],
+              details: { error: "INVALID_ITEMS", errors: itemErrors }
+            };
+          }
+        }
+
+        // Validate caller-supplied plan before creating any state
+        if (subtasks !== undefined) {
+          const planErrors = validateSubTaskPlans(subtasks);
+          if (planErrors.length > 0) {
+            return {
+              content: [{ type: "text", text: `Error: Invalid sub-task plan:\n${planErrors.map(e => `  - ${e}`).join('\n')}` }],
+              details: { error: "INVALID_SUBTASK_PLAN", errors: planErrors }
+            };
+          }
+        }
+
+        try {
           // Parse preferred models
           const preferredModels = models ? models.split(',').map((m: string) => m.trim()) : undefined;
+          const defaults = PRIORITY_MODEL_DEFAULTS[priority as MainTask['priority']] || PRIORITY_MODEL_DEFAULTS.medium;
+
+          // Sub-tasks: caller-supplied plan, one per fan-out item, or generic numbered parts
+          const template = description_template || `${task_description}\n\nItem: {item}`;
+          const plans: SubTaskPlan[] = subtasks
+            ?? (items as string[] | undefined)?.map((item, i) => ({
+              description: renderItemTemplate(template, item, i),
+              expected_outcome: `Execution result for item: ${item}`
+            }))
+            ?? Array.from({ length: Math.min(subtask_count, MAX_SUBTASKS) }, (_, i) => ({
+              description: `Execute part ${i + 1} of task "${task_description}"`,
+              expected_outcome: `Execution result for part ${i + 1} of the task`
+            }));
+
+          // Select a model for each sub-task from its own requirements
+          const selections = plans.map(plan => {
+            const difficulty = plan.difficulty || defaults.difficulty;
+            const requiredCapabilities = plan.capabilities || ['reasoning'];
+            const costPreference = plan.cost || defaults.cost;
+            const planModels = plan.models
+              ? plan.models.split(',').map((m: string) => m.trim()).filter(Boolean)
+              : undefined;
+            // Eligible models rank first; otherwise the top entry is the nearest match
+            const ranking = modelSelector.rankModels({
+              difficulty,
+              requiredCapabilities,
+              costPreference,
+              preferredModels: planModels || preferredModels
+            });
+            const model = ranking[0]?.model;
+            const nearestMatch = ranking.length > 0 && !ranking[0].eligible ? ranking[0] : undefined;
+            const hints = planModels || preferredModels;
+            const ignoredHints = !!model && !!hints?.length && !hints.includes(model.id) ? hints : undefined;
+            return { difficulty, requiredCapabilities, costPreference, planModels, model, nearestMatch, ignoredHints };
+          });
+          const modelWarnings = selections.flatMap((sel, i) => [
+            ...(sel.ignoredHints
+              ? [`Sub-task ${i + 1}: none of the models hints (${sel.ignoredHints.join(', ')}) is configured, choosing from all models`]
+              : []),
+            ...(sel.nearestMatch
+              ? [`Sub-task ${i + 1}: no model fully matches, using nearest match ${sel.nearestMatch.model.id} (${sel.nearestMatch.rejections.join('; ')})`]
+              : [])
+          ]);
+          modelWarnings.forEach(w => api.logger.warn(w));
+
+          const unmatched = selections
+            .map((sel, i) => ({ ...sel, index: i }))
+            .filter(sel => !sel.model);
+          if (unmatched.length > 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `Error: No configured model available for ${unmatched.length} sub-task(s). Please check model configuration or the models hints:\n` +
+                  unmatched.map(sel =>
+                    `  - sub-task ${sel.index + 1}: models=${(sel.planModels || preferredModels || []).join(', ') || '(any)'}`
+                  ).join('\n')
+              }],
+              details: {
+                error: "NO_MODEL_AVAILABLE",
+                unmatched: unmatched.map(sel => ({
+                  index: sel.index,
+                  models: sel.planModels || preferredModels
+                })),
+                availableModels: modelSelector.list().map(m => m.id)
+              }
+            };
+          }
+
+          // Reduce stage model is chosen up front; the sub-task itself is created later
+          let reduceStage: ReduceStage | undefined;
+          if (reduce) {
+            const plan = reduce as ReducePlan;
+            const reduceModels = plan.models
+              ? plan.models.split(',').map((m: string) => m.trim()).filter(Boolean)
+              : undefined;
+            const difficulty = plan.difficulty || 'complex';
+            const requiredCapabilities = plan.capabilities || ['reasoning'];
+            const costPreference = plan.cost || 'medium';
+            const reduceModel = modelSelector.selectModel(
+              difficulty,
+              requiredCapabilities,
+              costPreference,
+              reduceModels || preferredModels
+            );
+            if (!reduceModel) {
+              return {
+                content: [{ type: "text", text: `Error: No suitable model found for the reduce stage (difficulty=${difficulty}, cost=${costPreference}, capabilities=${requiredCapabilities.join(', ')}).` }],
+                details: { error: "NO_MODEL_AVAILABLE", stage: "reduce", availableModels: modelSelector.list().map(m => m.id) }
+              };
+            }
+            const outcome = resolveExpectedOutcome(plan.expected_outcome, 'One merged deliverable combining all sub-task results');
+            reduceStage = {
+              description: plan.description,
+              rolePrompt: plan.role_prompt,
+              expectedOutcome: outcome.expectedOutcome,
+              outcomeSchema: outcome.outcomeSchema,
+              modelId: reduceModel.id,
+              difficulty,
+              requiredCapabilities,
+              costPreference
+            };
+          }
+
+          // A cost cap cannot be enforced for models that have no pricing
+          if (budget?.max_cost_usd !== undefined) {
+            const assigned = [...selections.map(sel => sel.model!.id), ...(reduceStage ? [reduceStage.modelId] : [])];
+            const unpriced = [...new Set(assigned.filter(id => !modelSelector.getPricing(id)))];
+            if (unpriced.length > 0) {
+              return {
+                content: [{
+                  type: "text",
+                  text: `Error: budget.max_cost_usd cannot be enforced: no pricing for ${unpriced.join(', ')}. ` +
+                    `Add pricing with orchestrate_config, choose priced models, or use budget.max_tokens instead.`
+                }],
+                details: { error: "UNPRICED_MODELS", models: unpriced }
+              };
+            }
+          }
+
+          const retryPolicy: RetryPolicy | undefined = retry
+            ? {
+                maxAttempts: retry.max_attempts,
+                backoffMs: retry.backoff_seconds !== undefined ? retry.backoff_seconds * 1000 : DEFAULT_RETRY_BACKOFF_MS,
+                fallbackModels: retry.fallback_models
+                  ? retry.fallback_models.split(',').map((m: string) => m.trim()).filter(Boolean)
+                  : undefined
+              }
+            : undefined;
+
+          // Create main task
+          const mainTask = taskManager.createMainTask(
+            task_description,
+            priority,
+            on_dependency_failure,
+            max_concurrency ?? (items ? DEFAULT_FANOUT_CONCURRENCY : undefined),
+            reduceStage,
+            retryPolicy,
+            budget ? { maxCostUsd: budget.max_cost_usd, maxTokens: budget.max_tokens } : undefined
+          );
+          activityLogger.logTaskDispatched(mainTask.id, task_description, priority);
 
-          // Create sub-tasks
           const createdSubTasks: SubTask[] = [];
-          for (let i = 0; i < Math.min(subtask_count, 5); i++) {
+          const subTaskIdsByKey = new Map<string, string>();
+          for (const [i, plan] of plans.entries()) {
+            const selection = selections[i];
+            const outcome = resolveExpectedOutcome(plan.expected_outcome, `Execution result for: ${plan.description}`);
             const subTask = taskManager.createSubTask(
               mainTask.id,
-              `Execute part ${i + 1} of task "${task_description}"`,
-              'You are an efficient AI assistant, please complete the task strictly according to instructions and report results upon completion.',
-              ['Analyze task requirements', 'Plan execution steps', 'Execute task', 'Verify results', 'Report completion'],
-              `Execution result for part ${i + 1} of the task`
+              plan.description,
+              plan.role_prompt || DEFAULT_ROLE_PROMPT,
+              plan.steps_to_execute || DEFAULT_STEPS,
+              outcome.expectedOutcome,
+              {
+                difficulty: selection.difficulty,
+                requiredCapabilities: selection.requiredCapabilities,
+                costPreference: selection.costPreference,
+                preferredModels: selection.planModels,
+                modelId: selection.model!.id,
+                planKey: planKeyOf(plan, i),
+                outcomeSchema: outcome.outcomeSchema
+              }
             );
-            if (subTask) createdSubTasks.push(subTask);
+            if (subTask) {
+              createdSubTasks.push(subTask);
+              subTaskIdsByKey.set(planKeyOf(plan, i), subTask.id);
+            }
           }
 
-          // Select model for each sub-task
-          const assignedModel = modelSelector.selectModel(
-            'medium', // Default difficulty
-            ['reasoning'],
-            'medium', // Default cost preference
-            preferredModels
-          );
-
-          if (!assignedModel) {
+          // Resolve depends_on keys into sub-task IDs
+          const links: Record<string, string[]> = {};
+          plans.forEach((plan, i) => {
+            const subTaskId = subTaskIdsByKey.get(planKeyOf(plan, i));
+            if (subTaskId && plan.depends_on?.length) {
+              links[subTaskId] = plan.depends_on.map(key => subTaskIdsByKey.get(key)!);
+            }
+          });
+          const linkResult = taskManager.linkDependencies(mainTask.id, links);
+          if (!linkResult.success) {
+            taskManager.updateMainTaskStatus(mainTask.id, 'failed', linkResult.error);
             return {
-              content: [{ type: "text", text: `Error: No suitable model found to execute task. Please check model configuration or specify models.` }],
-              details: { error: "NO_MODEL_AVAILABLE", availableModels: modelSelector.list().map(m => m.id) }
+              content: [{ type: "text", text: `Error: ${linkResult.error}` }],
+              details: { error: "INVALID_DEPENDENCIES", mainTaskId: mainTask.id }
             };
           }
 
+          const waitingSubTasks = createdSubTasks.filter(st => st.dependsOn?.length);
+
           // Check if we can spawn sub-agents directly
           if (!capabilities.sessions_spawn) {
-            // Return instructions for the agent to spawn sub-agents itself
-            const spawnInstructions = createdSubTasks.map((st, i) => {
-              // Generate progress instructions for this sub-task
-              const progressInstructions = progressManager.generateProgressInstructions(
-                st.id,
-                mainTask.id,
-                st.stepsToExecute.length,
-                cfg.progressPath
-              );
-
-              // Combine task description with progress instructions
-              const fullTask = `${st.taskDescription}\n\n${progressInstructions}`;
-
-              return {
-                subTaskId: st.id,
-                task: fullTask,
-                originalTask: st.taskDescription,
-                suggestedModel: assignedModel.id,
-                spawnCommand: {
-                  tool: "sessions_spawn",
-                  params: {
-                    task: fullTask,
-                    model: assignedModel.id
-                  }
-                }
-              };
-            });
+            // Return instructions for the agent to spawn the sub-agents that are ready now
+            const spawnInstructions = releaseReadySubTasks(mainTask);
+            const queuedCount = taskManager.getReadySubTasks(mainTask.id).filter(st => !st.releasedAt).length;
 
             return {
               content: [{
                 type: "text",
                 text: `Task planning completed! Main task ID: ${mainTask.id}\n\n` +
                   `Since the plugin cannot directly create sub-sessions, please follow these steps:\n\n` +
-                  spawnInstructions.map((inst, i) =>
-                    `${i + 1}. **${inst.subTaskId}**\n` +
-                    `   Task: ${inst.originalTask}\n` +
-                    `   Suggested model: ${inst.suggestedModel}\n` +
-                    `   \n` +
-                    `   Step A: Execute sessions_spawn and record the returned sessionId\n` +
-                    `   Step B: Bind session to sub-task (IMPORTANT!)\n` +
-                    `   \n` +
-                    `   orchestrate_bind_session({\n` +
-                    `     sub_task_id: "${inst.subTaskId}",\n` +
-                    `     session_id: "<sessionId from sessions_spawn>"\n` +
-                    `   })`
-                  ).join('\n\n') +
+                  formatSpawnSteps(spawnInstructions) +
                   `\n\n**⚠️ Important**: Must execute Step B to bind session, otherwise sub-agent completion cannot be tracked!\n` +
+                  (waitingSubTasks.length > 0
+                    ? `\n⏳ ${waitingSubTasks.length} sub-task(s) wait on dependencies and will be released by orchestrate_status once upstream work completes:\n` +
+                      waitingSubTasks.map(st => `   - ${st.id} (after ${st.dependsOn!.join(', ')})`).join('\n') + '\n\n'
+                    : '') +
+                  (queuedCount > 0
+                    ? `\n📦 ${queuedCount} more sub-task(s) queued (${mainTask.maxConcurrency ? `max ${mainTask.maxConcurrency} in flight for this task, ` : ''}` +
+                      `max ${cfg.maxConcurrentSubagents} plugin-wide). ` +
+                      `Call orchestrate_status as sub-agents finish to get the next wave.\n\n`
+                    : '') +
+                  (modelWarnings.length > 0 ? `⚠️ Model fallbacks:\n${modelWarnings.map(w => `   - ${w}`).join('\n')}\n\n` : '') +
                   `Use orchestrate_status tool to view task progress`
               }],
               details: {
                 mainTaskId: mainTask.id,
                 priority,
-                model: assignedModel.id,
+                models: createdSubTasks.map(st => ({ subTaskId: st.id, modelId: st.modelId })),
+                modelWarnings,
                 spawnInstructions,
+                waitingSubTasks: waitingSubTasks.map(st => ({ subTaskId: st.id, dependsOn: st.dependsOn })),
+                queuedCount,
+                maxConcurrency: mainTask.maxConcurrency,
                 progressPath: cfg.progressPath,
                 note: "1. Execute sessions_spawn 2. Use orchestrate_bind_session 3. Use orchestrate_status"
               }
             };
           }
 
-          // Spawn sub-agents for each sub-task
+          // Spawn the first wave; later releases are only surfaced as spawn instructions
+          // by orchestrate_status, see README "Plugin SDK Limitations"
           const spawnResults: { subTaskId: string; sessionId?: string; error?: string }[] = [];
+          const readySubTasks = applyDispatch(mainTask, planDispatch());
 
-          for (const subTask of createdSubTasks) {
+          for (const subTask of readySubTasks) {
+            const modelId = subTask.modelId!;
             try {
               const spawnResult = await (api as any).tools.sessions_spawn({
                 task: JSON.stringify({
@@ -1149,13 +5365,13 @@ export default {
                   expected_outcome: subTask.expectedOutcome,
                   parent_session_key: (api as any).sessionKey
                 }),
-                model: assignedModel.id
+                model: modelId
               });
 
               // Update sub-task with session info
               taskManager.updateSubTaskStatus(subTask.id, 'running', {
                 childSessionId: spawnResult.childSessionKey,
-                modelId: assignedModel.id,
+                modelId: modelId,
                 startTime: Date.now()
               });
 
@@ -1163,25 +5379,24 @@ export default {
                 mainTask.id,
                 subTask.id,
                 spawnResult.childSessionKey,
-                assignedModel.id
+                modelId
               );
 
               spawnResults.push({ subTaskId: subTask.id, sessionId: spawnResult.childSessionKey });
             } catch (error: any) {
-              taskManager.updateSubTaskStatus(subTask.id, 'failed', { errorLog: error.message });
-              activityLogger.logSubagentFailed(mainTask.id, subTask.id, 'N/A', error.message);
+              failSubTask(mainTask, subTask, `Spawn failed: ${error.message}`);
               spawnResults.push({ subTaskId: subTask.id, error: error.message });
             }
           }
 
           // Update main task status
-          const anyRunning = createdSubTasks.some(st => {
+          const anyRunning = readySubTasks.some(st => {
             const task = taskManager.getTask(mainTask.id);
             const sub = task?.subTasks.find(s => s.id === st.id);
             return sub?.status === 'running';
           });
           if (anyRunning) {
-            taskManager.updateSubTaskStatus(createdSubTasks[0].id, 'running'); // Trigger main task status update
+            taskManager.updateSubTaskStatus(readySubTasks[0].id, 'running'); // Trigger main task status update
           }
 
           const successCount = spawnResults.filter(r => r.sessionId).length;
@@ -1196,7 +5411,8 @@ export default {
                 `Sub-task count: ${createdSubTasks.length}\n` +
                 `Successfully started: ${successCount}\n` +
                 `Failed to start: ${failCount}\n` +
-                `Model used: ${assignedModel.id}\n\n` +
+                `Models used:\n${createdSubTasks.map(st => `  - ${st.id}: ${st.modelId}`).join('\n')}\n\n` +
+                (modelWarnings.length > 0 ? `⚠️ Model fallbacks:\n${modelWarnings.map(w => `  - ${w}`).join('\n')}\n\n` : '') +
                 `Sub-agent sessions:\n${spawnResults.map(r =>
                   r.sessionId ? `  - ${r.subTaskId}: ${r.sessionId}` : `  - ${r.subTaskId}: Failed - ${r.error}`
                 ).join('\n')}`
@@ -1204,7 +5420,8 @@ export default {
             details: {
               mainTaskId: mainTask.id,
               priority,
-              model: assignedModel.id,
+              models: createdSubTasks.map(st => ({ subTaskId: st.id, modelId: st.modelId })),
+              modelWarnings,
               subTasks: spawnResults
             }
           };
@@ -1227,16 +5444,27 @@ export default {
       description: "View current status overview of specific task or all tasks",
       parameters: OrchestrateStatusSchema,
       execute: async (_toolCallId, params) => {
-        const { task: taskId, session: sessionId, status_filter } = params as any;
+        const { task: taskId, session: sessionId, status_filter, verbose } = params as any;
+        const matchesFilter = (t: MainTask) => SUBTASK_ONLY_STATUSES.includes(status_filter)
+          ? t.subTasks.some(st => st.status === status_filter)
+          : t.status === status_filter;
 
         try {
+          const recovery = recoveryPass;
+
           let tasks: MainTask[] = [];
 
           if (sessionId) {
             // Find task by session ID
-            const result = taskManager.getTaskBySessionId(sessionId);
-            if (result) {
-              tasks = [result.mainTask];
+            const lookup = taskManager.resolveSession(sessionId);
+            if (!lookup.success && lookup.code !== 'SESSION_NOT_FOUND') {
+              return {
+                content: [{ type: "text", text: `Error: ${lookup.error}` }],
+                details: { error: lookup.code, session: sessionId, matches: lookup.matches }
+              };
+            }
+            if (lookup.match) {
+              tasks = [lookup.match.mainTask];
             }
           } else if (taskId) {
             // Find specific task
@@ -1251,7 +5479,7 @@ export default {
 
           // Apply status filter
           if (status_filter) {
-            tasks = tasks.filter(t => t.status === status_filter);
+            tasks = tasks.filter(matchesFilter);
           }
 
           if (tasks.length === 0) {
@@ -1262,35 +5490,16 @@ export default {
           }
 
           // Sync status based on progress files
+          ingestProgressFiles(tasks);
+
+          // Sub-agents silent for too long are marked stalled (and nudged, if configured)
+          const stalls = checkHeartbeats(true);
+
+          // Release sub-tasks whose dependencies are now satisfied, from one plan for every task
+          const dispatchPlan = planDispatch();
+          const readyToSpawn: SpawnInstruction[] = [];
           for (const task of tasks) {
-            for (const subTask of task.subTasks) {
-              const currentStatus = subTask.status;
-              if (currentStatus === 'running' || currentStatus === 'pending') {
-                const progressReport = progressManager.readProgress(subTask.id);
-                if (progressReport) {
-                  const reportStatus = progressReport.status;
-                  // Update status based on progress file
-                  if (reportStatus === 'completed') {
-                    taskManager.updateSubTaskStatus(subTask.id, 'completed', {
-                      endTime: Date.now(),
-                      actualDuration: subTask.startTime ? Date.now() - subTask.startTime : undefined
-                    });
-                    activityLogger.logSubagentCompleted(task.id, subTask.id, subTask.childSessionId || 'N/A');
-                  } else if (reportStatus === 'failed') {
-                    taskManager.updateSubTaskStatus(subTask.id, 'failed', {
-                      endTime: Date.now(),
-                      errorLog: progressReport.message
-                    });
-                    activityLogger.logSubagentFailed(task.id, subTask.id, subTask.childSessionId || 'N/A', progressReport.message);
-                  } else if (reportStatus === 'in_progress' && currentStatus === 'pending') {
-                    // If progress file shows in_progress but status is pending, update to running
-                    taskManager.updateSubTaskStatus(subTask.id, 'running', {
-                      startTime: Date.now()
-                    });
-                  }
-                }
-              }
-            }
+            readyToSpawn.push(...releaseReadySubTasks(task, dispatchPlan));
           }
 
           // Re-fetch updated tasks
@@ -1298,52 +5507,258 @@ export default {
             const task = taskManager.getTask(taskId);
             tasks = task ? [task] : [];
           } else if (sessionId) {
-            const result = taskManager.getTaskBySessionId(sessionId);
-            tasks = result ? [result.mainTask] : [];
+            const lookup = taskManager.resolveSession(sessionId);
+            tasks = lookup.match ? [lookup.match.mainTask] : [];
           } else {
             tasks = taskManager.getAllTasks();
             if (status_filter) {
-              tasks = tasks.filter(t => t.status === status_filter);
+              tasks = tasks.filter(matchesFilter);
+            }
+          }
+
+          // Queue position and wait reason of every sub-task still queued
+          const queued = dispatchPlan.decisions
+            .filter(decision => !decision.subTask.releasedAt)
+            .map((decision, i) => ({ ...decision, position: i + 1 }));
+          const queueDecisions = new Map(queued.map(decision => [decision.subTask.id, decision]));
+          const globalInFlight = taskManager.getAllTasks()
+            .reduce((sum, task) => sum + taskManager.getInFlightSubTasks(task.id, cfg.releaseTimeoutMs).length, 0);
+
+          // Projected finish of every unfinished sub-task and main task
+          const etaNow = Date.now();
+          const etas: Record<string, { task?: Eta; subTasks: Record<string, Eta> }> = {};
+          for (const t of tasks) {
+            const subTaskEtas = new Map<string, Eta>();
+            for (const st of t.subTasks) {
+              const eta = projectEta(st, etaNow);
+              if (eta) subTaskEtas.set(st.id, eta);
             }
+            const reduceEstimate = t.reduce ? modelStats.estimate(t.reduce.modelId, REDUCE_STEPS.length, 'reduce') : undefined;
+            etas[t.id] = {
+              task: estimateTaskEta(t, subTaskEtas, reduceEstimate, etaNow),
+              subTasks: Object.fromEntries(subTaskEtas)
+            };
           }
 
           // Format output
           const output = tasks.map(t => {
             const totalSubTasks = t.subTasks.length;
             const completedSubTasks = t.subTasks.filter(st => st.status === 'completed').length;
-            const runningSubTasks = t.subTasks.filter(st => st.status === 'running').length;
+            const runningSubTasks = t.subTasks.filter(st => LIVE_SUBTASK_STATUSES.includes(st.status)).length;
             const progress = totalSubTasks > 0 ? Math.round((completedSubTasks / totalSubTasks) * 100) : 0;
+            const inFlightSubTasks = taskManager.getInFlightSubTasks(t.id, cfg.releaseTimeoutMs).length;
+            const queuedSubTasks = taskManager.getReadySubTasks(t.id).filter(st => !st.releasedAt).length;
+
+            const subTaskDetails = t.subTasks.map(st => {
+              const statusIcon = st.status === 'completed' ? '✅' :
+                                 st.status === 'running' ? '🔄' :
+                                 st.status === 'stalled' ? '💤' :
+                                 st.status === 'orphaned' ? '👻' :
+                                 st.status === 'failed' ? '❌' :
+                                 st.status === 'skipped' ? '⏭️' :
+                                 st.status === 'frozen' ? '🧊' :
+                                 st.status === 'aborted' ? '🛑' :
+                                 st.status === 'invalid_result' ? '⚠️' : '⏳';
+
+              // Read progress file for real-time progress
+              const progressReport = progressManager.readProgress(st.id);
+              const stepInfo = progressReport
+                ? ` Step ${progressReport.currentStep}/${progressReport.totalSteps} (${progressReport.percentage}%)`
+                : '';
+              const messageInfo = progressReport?.message
+                ? ` - ${progressReport.message.substring(0, 50)}${progressReport.message.length > 50 ? '...' : ''}`
+                : '';
+              const unmetDeps = st.status === 'pending'
+                ? (st.dependsOn || []).filter(depId => t.subTasks.find(dep => dep.id === depId)?.status !== 'completed')
+                : [];
+              const waitInfo = unmetDeps.length > 0
+                ? ` (waiting on ${unmetDeps.map(depId => depId.split('-').pop()).join(', ')})`
+                : '';
+
+              const kindInfo = st.kind === 'reduce' ? ' [reduce]' : '';
+              const retryInfo = st.status === 'pending' && st.attempts?.length
+                ? ` (attempt ${st.attempts.length + 1}/${t.retryPolicy?.maxAttempts ?? st.attempts.length + 1}` +
+                  (st.retryAfter && st.retryAfter > Date.now() ? `, retry in ${Math.ceil((st.retryAfter - Date.now()) / 1000)}s` : '') + ')'
+                : '';
+              const decision = queueDecisions.get(st.id);
+              const queueInfo = decision && !decision.release
+                ? ` (queue #${decision.position}: ${decision.waitReason})`
+                : st.status === 'pending' && st.releasedAt && !st.childSessionId && cfg.releaseTimeoutMs && Date.now() - st.releasedAt > cfg.releaseTimeoutMs
+                  ? ` (released ${Math.round((Date.now() - st.releasedAt) / 60000)}min ago but never spawned; no longer holds a slot)`
+                  : '';
+              const pausedInfo = st.status === 'frozen' && st.frozenAt
+                ? ` (paused ${Math.round((Date.now() - st.frozenAt) / 60000)}min${st.frozenFrom === 'running' ? ', sub-agent holding' : ''})`
+                : '';
+              const stalledInfo = st.status === 'stalled' && st.stalledAt
+                ? ` (no progress for ${Math.round((Date.now() - lastHeartbeat(st, progressReport)) / 60000)}min${st.nudgedAt ? ', nudged' : ''})`
+                : '';
+              const orphanInfo = st.status === 'orphaned'
+                ? ' (session lost at restart: rebind it, or cancel the task)'
+                : '';
+              const subTaskEta = etas[t.id].subTasks[st.id];
+              const etaInfo = subTaskEta ? ` ETA ${formatEta(subTaskEta, etaNow)}` : '';
+              const validationInfo = st.validationErrors?.length
+                ? ` - ${st.validationErrors.length} schema error(s): ${st.validationErrors[0]}`
+                : '';
+
+              const timelineInfo = verbose && st.timeline?.length
+                ? '\n' + formatTimeline(st)
+                : '';
+
+              return `    ${statusIcon} ${st.id.split('-').pop()}${kindInfo}: ${st.status}${waitInfo}${retryInfo}${queueInfo}${pausedInfo}${stalledInfo}${orphanInfo}${stepInfo}${etaInfo}${st.childSessionId ? ` [${st.childSessionId.split('-').pop()}]` : ''}${st.modelId ? ` (${st.modelId})` : ''}${messageInfo}${validationInfo}${timelineInfo}`;
+            }).join('\n');
+
+            return `📋 Task: ${t.id.split('-')[1]}...\n` +
+              `   Description: ${t.description}\n` +
+              `   Status: ${t.status} | Progress: ${progress}% (${completedSubTasks}/${totalSubTasks})\n` +
+              `   In flight: ${inFlightSubTasks}${t.maxConcurrency ? `/${t.maxConcurrency}` : ''} | Queued: ${queuedSubTasks}\n` +
+              (etas[t.id].task ? `   ETA: ${formatEta(etas[t.id].task!, etaNow)}, around ${new Date(etas[t.id].task!.finishAt).toISOString()}\n` : '') +
+              (t.frozenAt
+                ? `   🧊 Paused since ${new Date(t.frozenAt).toISOString()}${t.frozenReason ? `: ${t.frozenReason}` : ''} (orchestrate_resume to continue)\n`
+                : '') +
+              (t.budget || t.usage ? `   Spent: ${formatSpend(t.usage, t.budget)}\n` : '') +
+              (t.budgetExceededAt
+                ? `   ⛔ Over budget: no further sub-tasks will be released\n`
+                : t.budgetHold ? `   ⛔ ${t.budgetHold}\n` : '') +
+              (t.reduce && !t.reduce.subTaskId && !t.completedAt
+                ? `   Reduce: waiting for ${t.subTasks.filter(st => st.status !== 'completed').length} sub-task(s) to complete\n`
+                : '') +
+              `   Sub-tasks:\n${subTaskDetails}`;
+          }).join('\n\n');
+
+          const readyOutput = readyToSpawn.length > 0
+            ? `\n\n🚀 Ready to spawn (${readyToSpawn.length}):\n\n${formatSpawnSteps(readyToSpawn)}`
+            : '';
+          const recoveryOutput = recovery && recovery.checked > 0
+            ? `🛟 Startup recovery (${new Date(recovery.ranAt).toISOString()}): ${recovery.checked} sub-task(s) checked - ` +
+              `${recovery.alive.length} alive, ${recovery.recovered.length} settled from progress files, ` +
+              `${recovery.orphaned.length} orphaned, ${recovery.requeued.length} re-queued` +
+              (recovery.awaitingBind.length > 0 ? `; ${recovery.awaitingBind.length} pending sub-task(s) still awaiting a session` : '') + '\n\n'
+            : '';
+          const nudges = stalls.filter(notice => notice.nudge);
+          const nudgeOutput = nudges.length > 0
+            ? `\n\n💤 Ask stalled sub-agents to report progress:\n${nudges.map(notice => notice.nudge).join('\n')}`
+            : '';
+
+          return {
+            content: [{ type: "text", text: `Task status overview (${tasks.length} tasks):\n` +
+              `Dispatch: ${globalInFlight}/${cfg.maxConcurrentSubagents} sub-agents in flight | Queued: ${queued.length}\n\n${recoveryOutput}${output}${readyOutput}${nudgeOutput}` }],
+            details: {
+              count: tasks.length,
+              tasks,
+              readyToSpawn,
+              stalls,
+              etas,
+              recovery,
+              queue: queued.map(decision => ({
+                position: decision.position,
+                subTaskId: decision.subTask.id,
+                mainTaskId: decision.mainTask.id,
+                priority: decision.mainTask.priority,
+                effectivePriority: decision.effectivePriority,
+                waitReason: decision.waitReason
+              }))
+            }
+          };
+        } catch (error: any) {
+          return {
+            content: [{ type: "text", text: `Error: Failed to query status - ${error.message}` }],
+            details: { error: error.message }
+          };
+        }
+      }
+    });
+
+    // ========================================================================
+    // Tool: orchestrate-results
+    // ========================================================================
+    api.registerTool({
+      name: "parallel_subagent_orchestrator_orchestrate_results",
+      label: "Orchestrate Results",
+      description: "Retrieve stored sub-task results (text, structured data, files) for a task or sub-task",
+      parameters: OrchestrateResultsSchema,
+      execute: async (_toolCallId, params) => {
+        const { task: taskId, sub_task: subTaskId, mode = 'summary' } = params as any;
+
+        if (!taskId && !subTaskId) {
+          return {
+            content: [{ type: "text", text: "Error: Specify task or sub_task." }],
+            details: { error: "MISSING_TARGET" }
+          };
+        }
+
+        try {
+          let mainTask: MainTask | null = null;
+          let subTasks: SubTask[] = [];
+
+          if (subTaskId) {
+            for (const t of taskManager.getAllTasks()) {
+              const st = t.subTasks.find(s => s.id === subTaskId);
+              if (st) {
+                mainTask = t;
+                subTasks = [st];
+                break;
+              }
+            }
+          } else {
+            mainTask = taskManager.getTask(taskId);
+            subTasks = mainTask?.subTasks || [];
+          }
 
-            const subTaskDetails = t.subTasks.map(st => {
-              const statusIcon = st.status === 'completed' ? '✅' :
-                                 st.status === 'running' ? '🔄' :
-                                 st.status === 'failed' ? '❌' : '⏳';
+          if (!mainTask) {
+            return {
+              content: [{ type: "text", text: `Error: ${subTaskId ? `Sub-task ${subTaskId}` : `Task ${taskId}`} not found` }],
+              details: { error: subTaskId ? "SUBTASK_NOT_FOUND" : "TASK_NOT_FOUND", task: taskId, sub_task: subTaskId }
+            };
+          }
 
-              // Read progress file for real-time progress
-              const progressReport = progressManager.readProgress(st.id);
-              const stepInfo = progressReport
-                ? ` Step ${progressReport.currentStep}/${progressReport.totalSteps} (${progressReport.percentage}%)`
-                : '';
-              const messageInfo = progressReport?.message
-                ? ` - ${progressReport.message.substring(0, 50)}${progressReport.message.length > 50 ? '...' : ''}`
-                : '';
+          const results = subTasks.map(st => ({
+            subTaskId: st.id,
+            status: st.status,
+            kind: st.kind,
+            validationErrors: st.validationErrors,
+            result: st.resultPath ? resultStore.read(st.resultPath) : null
+          }));
+
+          const output = results.map(({ subTaskId: id, status, kind, validationErrors, result }) => {
+            const header = `📦 ${id.split('-').pop()}${kind === 'reduce' ? ' [reduce]' : ''}: ${status}` +
+              (validationErrors?.length ? `\n   Schema errors:\n${validationErrors.map(e => `     - ${e}`).join('\n')}` : '');
+            if (!result) {
+              return `${header}\n   (no result recorded)`;
+            }
 
-              return `    ${statusIcon} ${st.id.split('-').pop()}: ${st.status}${stepInfo}${st.childSessionId ? ` [${st.childSessionId.split('-').pop()}]` : ''}${st.modelId ? ` (${st.modelId})` : ''}${messageInfo}`;
-            }).join('\n');
+            if (mode === 'full') {
+              return `${header}\n` +
+                `   Text:\n${result.text}\n` +
+                (result.data !== undefined ? `   Data:\n${JSON.stringify(result.data, null, 2)}\n` : '') +
+                `   Files: ${result.files.length > 0 ? result.files.join(', ') : 'none'}`;
+            }
 
-            return `📋 Task: ${t.id.split('-')[1]}...\n` +
-              `   Description: ${t.description}\n` +
-              `   Status: ${t.status} | Progress: ${progress}% (${completedSubTasks}/${totalSubTasks})\n` +
-              `   Sub-tasks:\n${subTaskDetails}`;
+            const dataKeys = result.data && typeof result.data === 'object' ? Object.keys(result.data) : [];
+            return `${header}\n` +
+              `   Text: ${result.text.substring(0, 200)}${result.text.length > 200 ? '...' : ''}\n` +
+              (result.data !== undefined ? `   Data: ${dataKeys.length > 0 ? `{ ${dataKeys.join(', ')} }` : typeof result.data}\n` : '') +
+              `   Files: ${result.files.length}`;
           }).join('\n\n');
 
+          const recorded = results.filter(r => r.result).length;
+
           return {
-            content: [{ type: "text", text: `Task status overview (${tasks.length} tasks):\n\n${output}` }],
-            details: { count: tasks.length, tasks }
+            content: [{
+              type: "text",
+              text: `Results for ${subTaskId ? `sub-task ${subTaskId}` : `task ${mainTask.id}`} (${recorded}/${results.length} recorded, ${mode}):\n\n${output}`
+            }],
+            details: {
+              mainTaskId: mainTask.id,
+              mode,
+              results: mode === 'full'
+                ? results
+                : results.map(r => ({ subTaskId: r.subTaskId, status: r.status, resultPath: subTasks.find(st => st.id === r.subTaskId)?.resultPath }))
+            }
           };
         } catch (error: any) {
           return {
-            content: [{ type: "text", text: `Error: Failed to query status - ${error.message}` }],
+            content: [{ type: "text", text: `Error: Failed to get results - ${error.message}` }],
             details: { error: error.message }
           };
         }
@@ -1356,65 +5771,136 @@ export default {
     api.registerTool({
       name: "parallel_subagent_orchestrator_orchestrate_bind_session",
       label: "Orchestrate Bind Session",
-      description: "Bind sub-agent session ID to sub-task (use after manually executing sessions_spawn)",
+      description: "Bind sub-agent sessions to sub-tasks (use after manually executing sessions_spawn), or unbind/rebind one",
       parameters: OrchestrateBindSessionSchema,
       execute: async (_toolCallId, params) => {
-        const { sub_task_id, session_id } = params as any;
+        const { action = 'bind', sub_task_id, session_id, bindings } = params as any;
 
         try {
-          // Find sub-task
-          let foundSubTask: SubTask | null = null;
-          let foundMainTask: MainTask | null = null;
+          if (action === 'unbind') {
+            if (!sub_task_id) {
+              return {
+                content: [{ type: "text", text: "Error: unbind needs sub_task_id." }],
+                details: { error: "MISSING_PARAMETER", action }
+              };
+            }
 
-          for (const mainTask of taskManager.getAllTasks()) {
-            const subTask = mainTask.subTasks.find(st => st.id === sub_task_id);
-            if (subTask) {
-              foundSubTask = subTask;
-              foundMainTask = mainTask;
-              break;
+            const found = taskManager.getAllTasks().find(t => t.subTasks.some(st => st.id === sub_task_id));
+            const subTask = found?.subTasks.find(st => st.id === sub_task_id);
+            if (!found || !subTask) {
+              return {
+                content: [{ type: "text", text: `Error: Sub-task ${sub_task_id} not found` }],
+                details: { error: "SUBTASK_NOT_FOUND", sub_task_id }
+              };
+            }
+            if (!subTask.childSessionId) {
+              return {
+                content: [{ type: "text", text: `Sub-task ${sub_task_id} is not bound to a session.` }],
+                details: { error: "NOT_BOUND", sub_task_id }
+              };
             }
-          }
 
-          if (!foundSubTask || !foundMainTask) {
+            const unbound = taskManager.unbindSession(sub_task_id);
+            if (!unbound.success) {
+              return {
+                content: [{ type: "text", text: `Error: ${unbound.error}` }],
+                details: { error: "SUBTASK_NOT_ACTIVE", sub_task_id, status: subTask.status }
+              };
+            }
+            progressManager.removeProgress(sub_task_id);
+            activityLogger.logSessionUnbound(found.id, sub_task_id, unbound.previousSessionId!);
+
+            const spawnInstructions = subTask.status === 'frozen' ? [] : [buildSpawnInstruction(found, subTask)];
             return {
-              content: [{ type: "text", text: `Error: Sub-task ${sub_task_id} not found` }],
-              details: { error: "SUBTASK_NOT_FOUND", sub_task_id }
+              content: [{
+                type: "text",
+                text: `🔓 Session ${unbound.previousSessionId} unbound from sub-task ${sub_task_id}\n\n` +
+                  `The session is no longer tracked; stop it yourself if it is still running.\n` +
+                  (spawnInstructions.length > 0
+                    ? `\n🚀 Spawn a replacement:\n\n${formatSpawnSteps(spawnInstructions)}`
+                    : `The sub-task is paused; it is released again on orchestrate_resume.`)
+              }],
+              details: {
+                sub_task_id,
+                mainTaskId: found.id,
+                previous_session: unbound.previousSessionId,
+                previousSessionIds: subTask.previousSessionIds,
+                spawnInstructions
+              }
             };
           }
 
-          // Check if already bound
-          if (foundSubTask.childSessionId) {
+          if (bindings !== undefined && (sub_task_id || session_id)) {
+            return {
+              content: [{ type: "text", text: "Error: Use either sub_task_id + session_id or bindings, not both." }],
+              details: { error: "INVALID_TARGET" }
+            };
+          }
+          const entries: Array<[string, string]> = bindings !== undefined
+            ? Object.entries(bindings as Record<string, string>)
+            : (sub_task_id && session_id ? [[sub_task_id, session_id]] : []);
+          if (entries.length === 0) {
             return {
-              content: [{ type: "text", text: `Sub-task ${sub_task_id} already bound to session ${foundSubTask.childSessionId}\nUnbind first if you need to rebind.` }],
-              details: { error: "ALREADY_BOUND", current_session: foundSubTask.childSessionId }
+              content: [{ type: "text", text: `Error: ${action} needs sub_task_id and session_id, or a non-empty bindings map.` }],
+              details: { error: "MISSING_PARAMETER", action }
             };
           }
 
-          // Bind session
-          taskManager.updateSubTaskStatus(sub_task_id, 'running', {
-            childSessionId: session_id,
-            startTime: Date.now()
-          });
+          const results = entries.map(([subTaskId, sessionId]) => bindSession(subTaskId, sessionId, action === 'rebind'));
 
-          activityLogger.log({
-            event_type: 'subagent_spawned',
-            task_id: foundMainTask.id,
-            sub_task_id: sub_task_id,
-            child_session_id: session_id,
-            status: 'bound'
-          });
+          // Single binding keeps the detailed response
+          if (bindings === undefined) {
+            const result = results[0];
+            if (!result.success) {
+              return {
+                content: [{ type: "text", text: result.message! }],
+                details: {
+                  error: result.error,
+                  sub_task_id,
+                  session_id,
+                  current_session: result.currentSession,
+                  waiting_on: result.waitingOn,
+                  retry_after: result.retryAfter
+                }
+              };
+            }
+            return {
+              content: [{
+                type: "text",
+                text: `✅ Session ${result.previousSessionId ? 're' : ''}bound successfully!\n\n` +
+                  `Sub-task: ${sub_task_id}\n` +
+                  `Session ID: ${session_id}\n` +
+                  (result.previousSessionId ? `Replaced session: ${result.previousSessionId}\n` : '') +
+                  `Status: ${result.status === 'frozen' ? 'paused (the sub-agent will hold until orchestrate_resume)' : 'running'}\n\n` +
+                  `You can now use orchestrate_status to view task progress.\n` +
+                  `Status will be automatically updated when sub-agent completes.`
+              }],
+              details: { sub_task_id, session_id, mainTaskId: result.mainTaskId, previous_session: result.previousSessionId }
+            };
+          }
 
+          const bound = results.filter(r => r.success);
           return {
             content: [{
               type: "text",
-              text: `✅ Session bound successfully!\n\n` +
-                `Sub-task: ${sub_task_id}\n` +
-                `Session ID: ${session_id}\n` +
-                `Status: running\n\n` +
-                `You can now use orchestrate_status to view task progress.\n` +
-                `Status will be automatically updated when sub-agent completes.`
+              text: `${bound.length === results.length ? '✅' : '⚠️'} Bound ${bound.length}/${results.length} session(s)\n\n` +
+                results.map(r => r.success
+                  ? `   ✅ ${r.subTaskId} → ${r.sessionId}${r.status === 'frozen' ? ' (paused)' : ''}${r.previousSessionId ? ` (replaced ${r.previousSessionId})` : ''}`
+                  : `   ❌ ${r.subTaskId} → ${r.sessionId}: ${r.message}`
+                ).join('\n') +
+                `\n\nYou can now use orchestrate_status to view task progress.`
             }],
-            details: { sub_task_id, session_id, mainTaskId: foundMainTask.id }
+            details: {
+              bound: bound.length,
+              failed: results.length - bound.length,
+              results: results.map(r => ({
+                sub_task_id: r.subTaskId,
+                session_id: r.sessionId,
+                success: r.success,
+                error: r.error,
+                previous_session: r.previousSessionId
+              }))
+            }
           };
         } catch (error: any) {
           return {
@@ -1446,18 +5932,18 @@ export default {
 
         try {
           // Validate session ownership
-          const result = taskManager.getTaskBySessionId(session_id);
-          if (!result) {
+          const lookup = taskManager.resolveSession(session_id);
+          if (!lookup.success) {
             return {
-              content: [{ type: "text", text: `Error: Session ${session_id} does not belong to any managed task.` }],
-              details: { error: "SESSION_NOT_FOUND", session_id }
+              content: [{ type: "text", text: `Error: ${lookup.error}` }],
+              details: { error: lookup.code, session_id, matches: lookup.matches }
             };
           }
 
-          const { mainTask, subTask } = result;
+          const { mainTask, subTask } = lookup.match!;
 
           // Check if already completed
-          if (['completed', 'failed', 'aborted'].includes(subTask.status)) {
+          if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) {
             return {
               content: [{ type: "text", text: `Sub-agent session ${session_id} already in ${subTask.status} state, no need to abort.` }],
               details: { session_id, status: subTask.status }
@@ -1473,12 +5959,14 @@ export default {
           }
 
           // Update status
+          taskManager.recordAttempt(subTask.id, 'aborted', MANUAL_ABORT_REASON);
           taskManager.updateSubTaskStatus(subTask.id, 'aborted', {
             endTime: Date.now(),
-            actualDuration: subTask.startTime ? Date.now() - subTask.startTime : undefined
+            actualDuration: subTask.startTime ? activeDuration(subTask) : undefined
           });
 
-          activityLogger.logSubagentAborted(mainTask.id, subTask.id, session_id);
+          progressManager.clearHold(subTask.id);
+          activityLogger.logSubagentAborted(mainTask.id, subTask.id, session_id, MANUAL_ABORT_REASON);
 
           return {
             content: [{ type: "text", text: `Sub-agent session ${session_id} successfully aborted.` }],
@@ -1494,6 +5982,366 @@ export default {
       }
     });
 
+    // ========================================================================
+    // Tool: orchestrate-cancel
+    // ========================================================================
+    api.registerTool({
+      name: "parallel_subagent_orchestrator_orchestrate_cancel",
+      label: "Orchestrate Cancel",
+      description: "Cancel a whole task: abort its running sessions and mark every unfinished sub-task aborted",
+      parameters: OrchestrateCancelSchema,
+      execute: async (_toolCallId, params) => {
+        const { task: taskId, reason = 'Cancelled manually' } = params as any;
+
+        try {
+          const mainTask = taskManager.getTask(taskId);
+          if (!mainTask) {
+            return {
+              content: [{ type: "text", text: `Error: Task ${taskId} not found` }],
+              details: { error: "TASK_NOT_FOUND", task: taskId }
+            };
+          }
+          if (mainTask.completedAt) {
+            return {
+              content: [{ type: "text", text: `Task ${taskId} already ended with status ${mainTask.status}, nothing to cancel.` }],
+              details: { error: "TASK_NOT_ACTIVE", task: taskId, status: mainTask.status }
+            };
+          }
+
+          // Terminate live sessions first; sub-tasks are marked aborted whether or not the kill succeeds
+          const sessions = mainTask.subTasks
+            .filter(st => st.childSessionId && (LIVE_SUBTASK_STATUSES.includes(st.status) || st.status === 'frozen'))
+            .map(st => st.childSessionId!);
+          const killed: string[] = [];
+          if (capabilities.process_kill) {
+            for (const sessionId of sessions) {
+              try {
+                await (api as any).tools.process({ action: 'kill', sessionId });
+                killed.push(sessionId);
+              } catch (killError: any) {
+                api.logger.warn(`Failed to kill session ${sessionId}: ${killError?.message || killError}`);
+              }
+            }
+          }
+          const toStop = sessions.filter(sessionId => !killed.includes(sessionId));
+
+          const reduceCancelled = !!mainTask.reduce &&
+            (!mainTask.reduce.subTaskId || mainTask.subTasks.some(st => st.id === mainTask.reduce!.subTaskId && !TERMINAL_SUBTASK_STATUSES.includes(st.status)));
+          const cancelled = taskManager.cancelTask(mainTask.id, reason) || [];
+          for (const subTask of cancelled) {
+            progressManager.clearHold(subTask.id);
+          }
+          activityLogger.logTaskCancelled(mainTask.id, reason, cancelled.map(st => st.id), sessions, reduceCancelled);
+
+          let text = `🛑 Cancelled task ${mainTask.id} (${reason})\n\n` +
+            `Aborted sub-tasks: ${cancelled.length}` +
+            (cancelled.length > 0 ? ` (${cancelled.map(st => st.id.split('-').pop()).join(', ')})` : '') + '\n' +
+            `Sessions terminated: ${killed.length}/${sessions.length}\n` +
+            (reduceCancelled ? `Reduce stage cancelled\n` : '');
+          if (toStop.length > 0) {
+            text += `\nThese sub-agent sessions may still be running. Stop them yourself:\n` +
+              toStop.map(sessionId => `- process({ action: "kill", sessionId: "${sessionId}" })`).join('\n');
+          }
+
+          return {
+            content: [{ type: "text", text }],
+            details: {
+              mainTaskId: mainTask.id,
+              reason,
+              cancelled: cancelled.map(st => st.id),
+              sessions,
+              killed,
+              reduceCancelled
+            }
+          };
+        } catch (error: any) {
+          activityLogger.logError('cancel', error);
+          return {
+            content: [{ type: "text", text: `Error: Failed to cancel task - ${error.message}` }],
+            details: { error: error.message, task: taskId }
+          };
+        }
+      }
+    });
+
+    // ========================================================================
+    // Tool: orchestrate-pause
+    // ========================================================================
+    api.registerTool({
+      name: "parallel_subagent_orchestrator_orchestrate_pause",
+      label: "Orchestrate Pause",
+      description: "Pause a sub-task or a whole task: nothing new is spawned and running sub-agents are told to hold",
+      parameters: OrchestratePauseSchema,
+      execute: async (_toolCallId, params) => {
+        const { task: taskId, sub_task: subTaskId, reason } = params as any;
+
+        if (!taskId === !subTaskId) {
+          return {
+            content: [{ type: "text", text: "Error: Specify either task or sub_task (exactly one)." }],
+            details: { error: "INVALID_TARGET" }
+          };
+        }
+
+        try {
+          const found = subTaskId ? taskManager.getAllTasks().find(t => t.subTasks.some(st => st.id === subTaskId)) : taskManager.getTask(taskId);
+          if (!found) {
+            return {
+              content: [{ type: "text", text: `Error: ${subTaskId ? `Sub-task ${subTaskId}` : `Task ${taskId}`} not found` }],
+              details: { error: subTaskId ? "SUBTASK_NOT_FOUND" : "TASK_NOT_FOUND", task: taskId, sub_task: subTaskId }
+            };
+          }
+          const mainTask: MainTask = found;
+
+          let targets: SubTask[];
+          if (subTaskId) {
+            targets = mainTask.subTasks.filter(st => st.id === subTaskId);
+          } else {
+            if (mainTask.frozenAt) {
+              return {
+                content: [{ type: "text", text: `Task ${taskId} is already paused.` }],
+                details: { error: "ALREADY_PAUSED", task: taskId }
+              };
+            }
+            if (mainTask.completedAt) {
+              return {
+                content: [{ type: "text", text: `Error: Task ${taskId} already ended with status ${mainTask.status}.` }],
+                details: { error: "TASK_NOT_ACTIVE", task: taskId, status: mainTask.status }
+              };
+            }
+            targets = mainTask.subTasks.filter(st => st.status === 'pending' || LIVE_SUBTASK_STATUSES.includes(st.status));
+            taskManager.setMainTaskFrozen(mainTask.id, true, reason);
+          }
+
+          const paused: string[] = [];
+          const sendCalls: string[] = [];
+          for (const subTask of targets) {
+            const frozen = taskManager.freezeSubTask(subTask.id);
+            if (!frozen.success) {
+              return {
+                content: [{ type: "text", text: `Error: ${frozen.error}` }],
+                details: { error: "SUBTASK_NOT_PAUSABLE", sub_task: subTask.id, status: subTask.status }
+              };
+            }
+            paused.push(subTask.id);
+            activityLogger.logSubtaskPaused(mainTask.id, subTask.id, reason);
+            const sendCall = signalHold(subTask, true, reason);
+            if (sendCall) sendCalls.push(sendCall);
+          }
+
+          let text = `⏸️ Paused ${subTaskId ? `sub-task ${subTaskId}` : `task ${mainTask.id}`}` + (reason ? ` (${reason})` : '') + '\n\n' +
+            (paused.length > 0 ? `Paused sub-tasks: ${paused.join(', ')}\n` : 'No pending or running sub-tasks to pause.\n') +
+            `No new sub-agents will be released until orchestrate_resume.\n` +
+            `Do not spawn sub-tasks from earlier instructions while paused.`;
+          if (sendCalls.length > 0) {
+            text += `\n\nRunning sub-agents check their hold file between steps. To stop them sooner, send:\n` +
+              sendCalls.map(call => `- ${call}`).join('\n');
+          }
+
+          return {
+            content: [{ type: "text", text }],
+            details: { mainTaskId: mainTask.id, paused, sessionsSend: sendCalls }
+          };
+        } catch (error: any) {
+          activityLogger.logError('pause', error);
+          return {
+            content: [{ type: "text", text: `Error: Failed to pause - ${error.message}` }],
+            details: { error: error.message, task: taskId, sub_task: subTaskId }
+          };
+        }
+      }
+    });
+
+    // ========================================================================
+    // Tool: orchestrate-resume
+    // ========================================================================
+    api.registerTool({
+      name: "parallel_subagent_orchestrator_orchestrate_resume",
+      label: "Orchestrate Resume",
+      description: "Resume a paused sub-task or task and release its sub-agents again",
+      parameters: OrchestrateResumeSchema,
+      execute: async (_toolCallId, params) => {
+        const { task: taskId, sub_task: subTaskId } = params as any;
+
+        if (!taskId === !subTaskId) {
+          return {
+            content: [{ type: "text", text: "Error: Specify either task or sub_task (exactly one)." }],
+            details: { error: "INVALID_TARGET" }
+          };
+        }
+
+        try {
+          const found = subTaskId ? taskManager.getAllTasks().find(t => t.subTasks.some(st => st.id === subTaskId)) : taskManager.getTask(taskId);
+          if (!found) {
+            return {
+              content: [{ type: "text", text: `Error: ${subTaskId ? `Sub-task ${subTaskId}` : `Task ${taskId}`} not found` }],
+              details: { error: subTaskId ? "SUBTASK_NOT_FOUND" : "TASK_NOT_FOUND", task: taskId, sub_task: subTaskId }
+            };
+          }
+          const mainTask: MainTask = found;
+
+          let targets: SubTask[];
+          if (subTaskId) {
+            if (mainTask.frozenAt) {
+              return {
+                content: [{ type: "text", text: `Error: Task ${mainTask.id} is paused as a whole. Resume the task instead.` }],
+                details: { error: "TASK_FROZEN", task: mainTask.id, sub_task: subTaskId }
+              };
+            }
+            targets = mainTask.subTasks.filter(st => st.id === subTaskId);
+            if (targets[0].status !== 'frozen') {
+              return {
+                content: [{ type: "text", text: `Sub-task ${subTaskId} is ${targets[0].status}, not paused.` }],
+                details: { error: "NOT_PAUSED", sub_task: subTaskId, status: targets[0].status }
+              };
+            }
+          } else {
+            if (!mainTask.frozenAt) {
+              return {
+                content: [{ type: "text", text: `Task ${taskId} is not paused.` }],
+                details: { error: "NOT_PAUSED", task: taskId, status: mainTask.status }
+              };
+            }
+            targets = mainTask.subTasks.filter(st => st.status === 'frozen');
+          }
+
+          const resumed: string[] = [];
+          const sendCalls: string[] = [];
+          for (const subTask of targets) {
+            taskManager.thawSubTask(subTask.id);
+            resumed.push(subTask.id);
+            activityLogger.logSubtaskResumed(mainTask.id, subTask.id, subTask.status);
+            const sendCall = signalHold(subTask, false);
+            if (sendCall) sendCalls.push(sendCall);
+          }
+          if (!subTaskId) {
+            taskManager.setMainTaskFrozen(mainTask.id, false);
+          }
+
+          const spawnInstructions = releaseReadySubTasks(mainTask);
+
+          let text = `▶️ Resumed ${subTaskId ? `sub-task ${subTaskId}` : `task ${mainTask.id}`}\n\n` +
+            (resumed.length > 0 ? `Resumed sub-tasks: ${resumed.join(', ')}\n` : 'No paused sub-tasks.\n');
+          if (sendCalls.length > 0) {
+            text += `\nRunning sub-agents continue once they see their hold file is gone. To wake them sooner, send:\n` +
+              sendCalls.map(call => `- ${call}`).join('\n') + '\n';
+          }
+          if (spawnInstructions.length > 0) {
+            text += `\n🚀 Ready to spawn (${spawnInstructions.length}):\n\n${formatSpawnSteps(spawnInstructions)}`;
+          }
+
+          return {
+            content: [{ type: "text", text }],
+            details: { mainTaskId: mainTask.id, resumed, sessionsSend: sendCalls, spawnInstructions }
+          };
+        } catch (error: any) {
+          activityLogger.logError('resume', error);
+          return {
+            content: [{ type: "text", text: `Error: Failed to resume - ${error.message}` }],
+            details: { error: error.message, task: taskId, sub_task: subTaskId }
+          };
+        }
+      }
+    });
+
+    // ========================================================================
+    // Tool: psam-report-progress (called by sub-agents)
+    // ========================================================================
+    // Built per calling session so reports can be checked against the session bound to the sub-task
+    api.registerTool((ctx: { sessionKey?: string }) => ({
+      name: "psam_report_progress",
+      label: "PSAM Report Progress",
+      description: "Report progress, completion or failure of your orchestrated sub-task",
+      parameters: ReportProgressSchema,
+      execute: async (_toolCallId: string, params: unknown) => {
+        const input = params as any;
+
+        try {
+          const mainTask = taskManager.getAllTasks().find(t => t.subTasks.some(st => st.id === input?.sub_task_id));
+          const subTask = mainTask?.subTasks.find(st => st.id === input.sub_task_id);
+          if (!mainTask || !subTask) {
+            return {
+              content: [{ type: "text", text: `Error: Sub-task ${input?.sub_task_id} not found. Use the sub-task ID from your task.` }],
+              details: { error: "SUBTASK_NOT_FOUND", sub_task_id: input?.sub_task_id }
+            };
+          }
+          if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) {
+            return {
+              content: [{ type: "text", text: `Sub-task ${subTask.id} is already ${subTask.status}; no further reports are needed.` }],
+              details: { error: "SUBTASK_NOT_ACTIVE", sub_task_id: subTask.id, status: subTask.status }
+            };
+          }
+          // Only a released or bound sub-task has a sub-agent that may report on it
+          if (!subTask.releasedAt && !subTask.childSessionId) {
+            return {
+              content: [{ type: "text", text: `Error: Sub-task ${subTask.id} has not been released yet; only its spawned sub-agent can report on it.` }],
+              details: { error: "SUBTASK_NOT_RELEASED", sub_task_id: subTask.id, status: subTask.status }
+            };
+          }
+          // A caller bound to another sub-task, or any caller but the bound session, is refused
+          if (ctx?.sessionKey) {
+            const caller = taskManager.resolveSession(ctx.sessionKey);
+            const callerSubTaskId = caller.match?.subTask.id;
+            if ((caller.code !== 'SESSION_NOT_FOUND' && callerSubTaskId !== subTask.id) ||
+                (caller.code === 'SESSION_NOT_FOUND' && subTask.childSessionId)) {
+              api.logger.warn(`Ignoring progress report for ${subTask.id} from session ${ctx.sessionKey}`);
+              return {
+                content: [{ type: "text", text: `Error: Session ${ctx.sessionKey} is not bound to sub-task ${subTask.id}; report on your own sub-task only.` }],
+                details: { error: "SESSION_MISMATCH", sub_task_id: subTask.id, session_id: ctx.sessionKey, bound_session: subTask.childSessionId }
+              };
+            }
+          }
+
+          const totalSteps = subTask.stepsToExecute.length;
+          const errors = validateProgressInput(input, totalSteps);
+          if (errors.length > 0) {
+            return {
+              content: [{ type: "text", text: `Error: Invalid progress report:\n${errors.map(e => `- ${e}`).join('\n')}` }],
+              details: { error: "INVALID_PROGRESS_REPORT", sub_task_id: subTask.id, errors }
+            };
+          }
+
+          const step = input.status === 'completed' ? totalSteps : input.step;
+          const status = applyProgressReport(mainTask, subTask, {
+            subTaskId: subTask.id,
+            mainTaskId: mainTask.id,
+            currentStep: step,
+            totalSteps,
+            status: input.status,
+            message: input.message,
+            timestamp: Date.now(),
+            percentage: Math.round(step / totalSteps * 100),
+            result: input.result,
+            usage: input.usage
+          });
+
+          let text: string;
+          if (status === 'frozen') {
+            text = `Recorded step ${step}/${totalSteps}. ⏸️ This sub-task is paused: do not start the next step. ` +
+              `Wait 30 seconds, then report step ${step} again to check whether it has been resumed.`;
+          } else if (status === 'invalid_result') {
+            text = `Your result does not match the expected outcome schema:\n${(subTask.validationErrors || []).map(e => `- ${e}`).join('\n')}`;
+          } else if (input.status === 'in_progress') {
+            text = `Recorded step ${step}/${totalSteps}. Continue with the next step.`;
+          } else if (status === 'pending') {
+            text = `Recorded ${input.status === 'failed' ? 'failure' : 'result'}; the sub-task will be retried. You can stop now.`;
+          } else {
+            text = `Recorded ${status} status. You can stop now.`;
+          }
+
+          return {
+            content: [{ type: "text", text }],
+            details: { sub_task_id: subTask.id, step, status }
+          };
+        } catch (error: any) {
+          activityLogger.logError('report_progress', error);
+          return {
+            content: [{ type: "text", text: `Error: Failed to record progress - ${error.message}` }],
+            details: { error: error.message, sub_task_id: input?.sub_task_id }
+          };
+        }
+      }
+    }), { name: "psam_report_progress" });
+
     // ========================================================================
     // Tool: orchestrate-inject
     // ========================================================================
@@ -1523,18 +6371,18 @@ export default {
 
         try {
           // Validate session ownership
-          const result = taskManager.getTaskBySessionId(session_id);
-          if (!result) {
+          const lookup = taskManager.resolveSession(session_id);
+          if (!lookup.success) {
             return {
-              content: [{ type: "text", text: `Error: Session ${session_id} does not belong to any managed task.` }],
-              details: { error: "SESSION_NOT_FOUND", session_id }
+              content: [{ type: "text", text: `Error: ${lookup.error}` }],
+              details: { error: lookup.code, session_id, matches: lookup.matches }
             };
           }
 
-          const { mainTask, subTask } = result;
+          const { mainTask, subTask } = lookup.match!;
 
           // Check if session is still running
-          if (['completed', 'failed', 'aborted'].includes(subTask.status)) {
+          if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) {
             return {
               content: [{ type: "text", text: `Error: Sub-agent session ${session_id} already in ${subTask.status} state, cannot inject message.` }],
               details: { error: "SESSION_NOT_RUNNING", session_id, status: subTask.status }
@@ -1584,11 +6432,11 @@ export default {
 
         try {
           // Validate session ownership
-          const result = taskManager.getTaskBySessionId(session_id);
-          if (!result) {
+          const lookup = taskManager.resolveSession(session_id);
+          if (!lookup.success) {
             return {
-              content: [{ type: "text", text: `Error: Session ${session_id} does not belong to any managed task.` }],
-              details: { error: "SESSION_NOT_FOUND", session_id }
+              content: [{ type: "text", text: `Error: ${lookup.error}` }],
+              details: { error: lookup.code, session_id, matches: lookup.matches }
             };
           }
 
@@ -1642,7 +6490,7 @@ export default {
       description: "Manage available model list (add/remove/modify/query)",
       parameters: OrchestrateConfigSchema,
       execute: async (_toolCallId, params) => {
-        const { action, model_id, models, note } = params as any;
+        const { action, model_id, models, note, pricing, explain } = params as any;
 
         // List models
         if (!action || action === 'list') {
@@ -1651,17 +6499,65 @@ export default {
 
           currentModels.forEach((m, i) => {
             output += `${i + 1}. ${m.id}\n`;
+            const modelPricing = modelSelector.getPricing(m.id);
+            if (modelPricing) {
+              output += `   💲 $${modelPricing.input_per_mtok} in / $${modelPricing.output_per_mtok} out per 1M tokens\n`;
+            }
+            const learned = modelStats.get(m.id);
+            if (learned) {
+              output += `   📈 ${formatModelStats(learned)}` +
+                (learned.attempts < MODEL_STATS_MIN_ATTEMPTS ? ` (not used for ranking until ${MODEL_STATS_MIN_ATTEMPTS} attempts)` : '') + `\n`;
+            }
           });
 
+          // Explain the ranking for a hypothetical request
+          let ranking: RankedModel[] | undefined;
+          if (explain) {
+            const request: ModelRequest = {
+              difficulty: explain.difficulty || 'medium',
+              requiredCapabilities: explain.capabilities || ['reasoning'],
+              costPreference: explain.cost || 'medium',
+              preferredModels: explain.models
+                ? explain.models.split(',').map((m: string) => m.trim()).filter(Boolean)
+                : undefined,
+              limit: explain.limit
+            };
+            ranking = modelSelector.rankModels(request);
+
+            output += `\n🔎 Ranking for difficulty=${request.difficulty}, cost=${request.costPreference}, capabilities=${request.requiredCapabilities.join(', ')}\n\n`;
+            ranking.forEach((r, i) => {
+              output += `${i + 1}. ${r.eligible ? '✅' : '❌'} ${r.model.id} - score ${r.score}\n`;
+              r.rejections.forEach(reason => { output += `   - ${reason}\n`; });
+              r.reasons.forEach(reason => { output += `   + ${reason}\n`; });
+            });
+            if (ranking.length === 0) {
+              output += `No models configured.\n`;
+            } else if (!ranking[0].eligible) {
+              output += `\n⚠️ No model passes every filter; nearest match: ${ranking[0].model.id}\n`;
+            }
+          }
+
           output += `\n💡 Usage instructions:\n`;
           output += `- Add model: { action: "add", model_id: "modelID" }\n`;
           output += `- Remove model: { action: "remove", model_id: "modelID" }\n`;
           output += `- Replace list: { action: "replace", models: "model1,model2,..." }\n`;
           output += `- Reset to default: { action: "reset" }\n`;
+          output += `- Explain ranking: { action: "list", explain: { difficulty: "complex", cost: "low" } }\n`;
 
           return {
             content: [{ type: "text", text: output }],
-            details: { models: currentModels, count: currentModels.length }
+            details: {
+              models: currentModels,
+              count: currentModels.length,
+              stats: modelStats.list(),
+              ranking: ranking?.map(r => ({
+                modelId: r.model.id,
+                score: r.score,
+                eligible: r.eligible,
+                reasons: r.reasons,
+                rejections: r.rejections
+              }))
+            }
           };
         }
 
@@ -1672,7 +6568,7 @@ export default {
             cost: 'medium',
             context_length: 'medium',
             reasoning: 'medium'
-          });
+          }, pricing);
 
           if (result.success) {
             return {
@@ -1724,6 +6620,12 @@ export default {
         // Reset to default
         if (action === 'reset') {
           const result = modelSelector.reset();
+          if (!result.success) {
+            return {
+              content: [{ type: "text", text: `⚠️ Reset failed: ${result.error}` }],
+              details: { error: result.error }
+            };
+          }
           return {
             content: [{ type: "text", text: `✅ Reset to default model list\n\nCurrent list:\n${modelSelector.list().map(m => `- ${m.id}`).join('\n')}` }],
             details: { count: modelSelector.list().length }
@@ -1793,7 +6695,7 @@ export default {
           // Implement report mode
           if (!auto_abort) {
             const report = timeouts.map(({ mainTask, subTask }) => {
-              const runtime = Math.round((Date.now() - (subTask.startTime || 0)) / 60000);
+              const runtime = Math.round(activeDuration(subTask) / 60000);
               return `⏰ ${subTask.id.split('-').pop()} (running ${runtime}min, session: ${subTask.childSessionId || 'N/A'})`;
             }).join('\n');
 
@@ -1828,7 +6730,7 @@ export default {
 
           for (const { mainTask, subTask } of timeouts) {
             // Security check: session ownership validation and abort status check
-            if (['completed', 'failed', 'aborted'].includes(subTask.status)) {
+            if (TERMINAL_SUBTASK_STATUSES.includes(subTask.status)) {
               report.push(`ℹ️ ${subTask.id.split('-').pop()}: Already in ${subTask.status} state`);
               continue;
             }
@@ -1843,14 +6745,13 @@ export default {
               // Abort session
               await (api as any).tools.process({ action: 'kill', sessionId: subTask.childSessionId });
 
-              // Update status
-              taskManager.updateSubTaskStatus(subTask.id, 'aborted', {
-                endTime: Date.now(),
-                actualDuration: subTask.startTime ? Date.now() - subTask.startTime : undefined
-              });
+              // Update status (timeout aborts are retried per the task's retry policy)
+              const runtimeMin = Math.round(activeDuration(subTask) / 60000);
+              const outcome = failSubTask(mainTask, subTask, `Timed out after ${runtimeMin}min`, {
+                actualDuration: subTask.startTime ? activeDuration(subTask) : undefined
+              }, 'aborted');
 
-              activityLogger.logSubagentAborted(mainTask.id, subTask.id, subTask.childSessionId);
-              report.push(`🔴 ${subTask.id.split('-').pop()}: Aborted (${Math.round((Date.now() - (subTask.startTime || 0)) / 60000)}min)`);
+              report.push(`🔴 ${subTask.id.split('-').pop()}: Aborted (${runtimeMin}min)${outcome === 'pending' ? ', retry scheduled' : ''}`);
               abortedCount++;
             } catch (error: any) {
               const errorMsg = error?.message || String(error);
@@ -1894,6 +6795,7 @@ export default {
           const maxAge = older_than_days * 24 * 60 * 60 * 1000;
           const beforeTasks = taskManager.getAllTasks().length;
           taskManager.deleteOldTasks(maxAge);
+          resultStore.pruneOrphans(taskManager.getAllTasks().map(t => t.id));
           const afterTasks = taskManager.getAllTasks().length;
           const deletedTasks = beforeTasks - afterTasks;
 
@@ -1903,18 +6805,16 @@ export default {
             cleanedProgress = progressManager.cleanupCompletedProgress();
           }
 
-          // Implement zombie session detection
+          // Implement zombie session detection: no heartbeat within the heartbeat interval
           const zombies: string[] = [];
+          const silenceLimit = cfg.heartbeatIntervalMs || 10 * 60 * 1000;
           for (const task of taskManager.getAllTasks()) {
             for (const subTask of task.subTasks) {
-              if (subTask.status === 'running') {
-                // Check if progress file exists
+              if (LIVE_SUBTASK_STATUSES.includes(subTask.status)) {
                 const progress = progressManager.readProgress(subTask.id);
-                const elapsed = Date.now() - (subTask.startTime || 0);
-
-                // No progress file + running > 10 min = possible zombie session
-                if (!progress && elapsed > 10 * 60 * 1000) {
-                  zombies.push(`${subTask.id} (running ${Math.round(elapsed / 60000)}min, no progress)`);
+                const silentMs = Date.now() - lastHeartbeat(subTask, progress);
+                if (silentMs > silenceLimit) {
+                  zombies.push(`${subTask.id} (running ${Math.round(activeDuration(subTask) / 60000)}min, no progress for ${Math.round(silentMs / 60000)}min${progress ? ` since step ${progress.currentStep}` : ''})`);
                 }
               }
             }
@@ -1993,38 +6893,59 @@ export default {
       api.logger.debug?.(`Session started: ${event.sessionId}`);
     });
 
+    // Message-based progress channel: [PSAM-*] markers in sub-agent output
+    // agent_end carries the whole transcript, so only messages after the last run's are parsed
+    const parsedMessageCounts = new Map<string, number>();
+    api.on("agent_end", async (event, ctx) => {
+      const sessionKey = ctx?.sessionKey;
+      if (!sessionKey) return;
+      const messages: any[] = Array.isArray(event?.messages) ? event.messages : [];
+      const parsed = parsedMessageCounts.get(sessionKey) ?? 0;
+      // A shorter transcript was compacted or restarted; its old markers are caught by the step check
+      const text = messages
+        .slice(messages.length >= parsed ? parsed : 0)
+        .filter(message => message?.role === 'assistant')
+        .map(messageText)
+        .join('\n');
+      parsedMessageCounts.set(sessionKey, messages.length);
+      applyProgressMarkers(sessionKey, text);
+    });
+
+    api.on("message_sent", async (event, ctx) => {
+      applyProgressMarkers(ctx?.sessionKey ?? event?.sessionKey, messageText(event));
+    });
+
+    api.on("message_received", async (event, ctx) => {
+      // The sender is the sub-agent; the receiving context is usually the main session
+      applyProgressMarkers(event?.metadata?.sessionKey ?? event?.from, messageText(event));
+    });
+
     api.on("session_end", async (event, ctx) => {
       api.logger.info?.(`Session ended: ${event.sessionId} (duration: ${event.durationMs}ms)`);
+      parsedMessageCounts.delete(ctx?.sessionKey ?? event.sessionId);
 
       // Check if this is a sub-agent session we're tracking
-      const result = taskManager.getTaskBySessionId(event.sessionId);
-      if (result) {
-        const { mainTask, subTask } = result;
+      const lookup = taskManager.resolveSession(event.sessionId);
+      if (lookup.success) {
+        const { mainTask, subTask } = lookup.match!;
 
         api.logger.info?.(`Found matching subtask: ${subTask.id} for session ${event.sessionId}`);
 
-        // Update sub-task status - assume completion when session ends
-        // Note: The SDK doesn't provide success/failure info, so we assume completion
-        taskManager.updateSubTaskStatus(subTask.id, 'completed', {
-          endTime: Date.now(),
-          actualDuration: event.durationMs
-        });
+        // A sub-task aborted, cancelled or reported finished before its session ended keeps its status
+        const outcomeStatus = TERMINAL_SUBTASK_STATUSES.includes(subTask.status)
+          ? subTask.status
+          : reconcileEndedSession(mainTask, subTask, event.sessionId, event.durationMs);
+        progressManager.clearHold(subTask.id);
 
-        activityLogger.logSubagentCompleted(mainTask.id, subTask.id, event.sessionId);
+        api.logger.info?.(`Sub-agent ${event.sessionId} ended (${outcomeStatus})`);
 
-        // Clean up progress file immediately when session ends
-        const progressFile = path.join(cfg.progressPath, `${subTask.id}.json`);
-        if (fs.existsSync(progressFile)) {
-          try {
-            fs.unlinkSync(progressFile);
-            api.logger.debug?.(`Cleaned up progress file: ${progressFile}`);
-          } catch (e) {
-            // Add error handling: cleanup failure doesn't affect main flow
-            api.logger.warn?.(`Failed to cleanup progress file: ${e}`);
-          }
+        // Downstream work can't be spawned from here; surface it in logs and orchestrate_status
+        const released = releaseReadySubTasks(mainTask);
+        if (released.length > 0) {
+          api.logger.info?.(`${released.length} sub-task(s) of ${mainTask.id} ready to spawn: ${released.map(inst => inst.subTaskId).join(', ')}`);
         }
-
-        api.logger.info?.(`Sub-agent ${event.sessionId} ended (assumed completed)`);
+      } else if (lookup.code === 'SESSION_AMBIGUOUS') {
+        api.logger.warn?.(`Ignoring end of session ${event.sessionId}: ${lookup.error}`);
       } else {
         api.logger.debug?.(`No matching subtask found for session ${event.sessionId}`);
       }
@@ -2038,6 +6959,9 @@ export default {
       const cleanupTimer = setInterval(() => {
         try {
           const deletedTasks = taskManager.deleteOldTasks();
+          if (deletedTasks > 0) {
+            resultStore.pruneOrphans(taskManager.getAllTasks().map(t => t.id));
+          }
           const cleanedProgress = progressManager.cleanupCompletedProgress();
 
           // Add activity logging
@@ -2067,6 +6991,32 @@ export default {
       api.logger.info('Auto-cleanup disabled by configuration');
     }
 
+    // Recover sub-tasks left running by the previous process
+    try {
+      recoveryPass = recoverState();
+    } catch (error) {
+      api.logger.error(`Startup recovery failed: ${error instanceof Error ? error.message : String(error)}`);
+      recoveryPass = { ranAt: Date.now(), checked: 0, alive: [], recovered: [], orphaned: [], requeued: [], awaitingBind: [] };
+    }
+    progressManager.cleanupCompletedProgress();
+
+    // Periodic stall detection (nudge calls that need the agent are surfaced by orchestrate_status)
+    if (cfg.heartbeatIntervalMs > 0) {
+      const heartbeatTimer = setInterval(() => {
+        try {
+          ingestProgressFiles(taskManager.getAllTasks());
+          checkHeartbeats(false);
+        } catch (error) {
+          api.logger.error(`Heartbeat check failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }, Math.max(60 * 1000, Math.floor(cfg.heartbeatIntervalMs / 2)));
+      // Do not keep the host process alive for heartbeat checks alone
+      heartbeatTimer.unref?.();
+    }
+
     api.logger.info("All tools registered successfully");
   }
 };
+
+// Internals covered by the tests under test/
+export { findDependencyCycle, fromJsonSchema, validateJsonSchema, DispatchQueue, parseProgressMarkers, TaskStateManager, migrateDocument, ModelSelector };
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findDependencyCycle } from '../index.ts';
+
+const graph = (edges: Record<string, string[]>) => new Map(Object.entries(edges));
+
+test('findDependencyCycle accepts an acyclic graph', () => {
+  assert.equal(findDependencyCycle(graph({ a: [], b: ['a'], c: ['a', 'b'] })), null);
+});
+
+test('findDependencyCycle accepts a diamond', () => {
+  assert.equal(findDependencyCycle(graph({ a: [], b: ['a'], c: ['a'], d: ['b', 'c'] })), null);
+});
+
+test('findDependencyCycle reports a self-dependency', () => {
+  assert.deepEqual(findDependencyCycle(graph({ a: ['a'] })), ['a', 'a']);
+});
+
+test('findDependencyCycle reports the nodes of a longer cycle in order', () => {
+  assert.deepEqual(findDependencyCycle(graph({ a: ['b'], b: ['c'], c: ['a'], d: ['a'] })), ['a', 'b', 'c', 'a']);
+});
+
+test('findDependencyCycle finds a cycle not reachable from the first node', () => {
+  assert.deepEqual(findDependencyCycle(graph({ a: [], b: ['c'], c: ['b'] })), ['b', 'c', 'b']);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DispatchQueue } from '../index.ts';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 100 * HOUR;
+
+const limits = (overrides: Record<string, any> = {}) => ({
+  maxConcurrentSubagents: 10,
+  maxConcurrentPerProvider: 5,
+  providerLimits: {},
+  starvationAgeMs: HOUR,
+  ...overrides
+});
+
+const task = (id: string, priority: 'high' | 'medium' | 'low', maxConcurrency?: number): any =>
+  ({ id, priority, maxConcurrency, status: 'running', subTasks: [] });
+
+const entry = (mainTask: any, id: string, readySince = NOW, modelId = 'anthropic/claude-haiku-4-5') => ({
+  mainTask,
+  subTask: { id, mainTaskId: mainTask.id, modelId, status: 'pending' } as any,
+  readySince
+});
+
+const released = (decisions: any[]) => decisions.filter(d => d.release).map(d => d.subTask.id);
+
+test('plan orders by priority, then by wait time', () => {
+  const high = task('h', 'high');
+  const low = task('l', 'low');
+  const decisions = new DispatchQueue(limits()).plan([
+    entry(low, 'low-1', NOW - 1000),
+    entry(high, 'high-2', NOW - 10),
+    entry(high, 'high-1', NOW - 20)
+  ], [], NOW);
+  assert.deepEqual(decisions.map(d => d.subTask.id), ['high-1', 'high-2', 'low-1']);
+  assert.deepEqual(decisions.map(d => d.position), [1, 2, 3]);
+});
+
+test('plan ages waiting work up one level per starvationAgeMs, at most two', () => {
+  const queue = new DispatchQueue(limits());
+  const medium = task('m', 'medium');
+  const low = task('l', 'low');
+  const aged = queue.plan([entry(medium, 'medium', NOW), entry(low, 'low', NOW - 90 * 60 * 1000)], [], NOW);
+  assert.deepEqual(aged.map(d => d.subTask.id), ['low', 'medium'], 'one level of aging wins the tie on wait time');
+
+  const starving = queue.plan([entry(task('h', 'high'), 'high', NOW), entry(low, 'low', NOW - 10 * HOUR)], [], NOW);
+  assert.equal(starving.find(d => d.subTask.id === 'low')!.effectivePriority, 3);
+  assert.deepEqual(starving.map(d => d.subTask.id), ['low', 'high']);
+});
+
+test('plan holds work back at the global limit, counting what is in flight', () => {
+  const t = task('t', 'medium');
+  const decisions = new DispatchQueue(limits({ maxConcurrentSubagents: 2 })).plan(
+    [entry(t, 'a'), entry(t, 'b')],
+    [{ id: 'running', mainTaskId: 'other', modelId: 'openai/gpt' } as any],
+    NOW
+  );
+  assert.deepEqual(released(decisions), ['a']);
+  assert.match(decisions[1].waitReason!, /global limit \(2\/2/);
+});
+
+test('plan applies per-provider limits and overrides', () => {
+  const t = task('t', 'medium');
+  const decisions = new DispatchQueue(limits({ maxConcurrentPerProvider: 1, providerLimits: { openai: 2 } })).plan([
+    entry(t, 'anthropic-1', NOW - 4),
+    entry(t, 'anthropic-2', NOW - 3),
+    entry(t, 'openai-1', NOW - 2, 'openai/gpt-5'),
+    entry(t, 'openai-2', NOW - 1, 'openai/gpt-5')
+  ], [], NOW);
+  assert.deepEqual(released(decisions), ['anthropic-1', 'openai-1', 'openai-2']);
+  assert.match(decisions[1].waitReason!, /provider anthropic limit \(1\/1/);
+});
+
+test('a held-back sub-task does not block lower-ranked work on another provider', () => {
+  const high = task('h', 'high');
+  const low = task('l', 'low');
+  const decisions = new DispatchQueue(limits({ maxConcurrentPerProvider: 1 })).plan([
+    entry(high, 'high', NOW),
+    entry(low, 'low', NOW, 'gemini-2.5-pro')
+  ], [{ id: 'busy', mainTaskId: 'x', modelId: 'anthropic/claude' } as any], NOW);
+  assert.deepEqual(released(decisions), ['low']);
+});
+
+test('plan applies the task concurrency cap and keeps blocked reasons', () => {
+  const capped = task('c', 'medium', 1);
+  const decisions = new DispatchQueue(limits()).plan([
+    entry(capped, 'c-1', NOW - 2),
+    entry(capped, 'c-2', NOW - 1),
+    { ...entry(task('b', 'high'), 'budget'), blockedReason: 'budget' }
+  ], [], NOW);
+  assert.deepEqual(released(decisions), ['c-1']);
+  assert.match(decisions.find(d => d.subTask.id === 'c-2')!.waitReason!, /task concurrency limit \(1\/1/);
+  assert.equal(decisions.find(d => d.subTask.id === 'budget')!.waitReason, 'budget');
+});
+
+test('providerOf takes the prefix before "/" or else before "-"', () => {
+  assert.equal(DispatchQueue.providerOf('anthropic/claude-haiku-4-5'), 'anthropic');
+  assert.equal(DispatchQueue.providerOf('gemini-2.5-pro'), 'gemini');
+  assert.equal(DispatchQueue.providerOf(undefined), 'unknown');
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Type } from '@sinclair/typebox';
+import { migrateDocument, ModelSelector } from '../index.ts';
+
+const logger = { info() {}, warn() {}, error() {}, debug() {} };
+
+function tempDir(t: { after: (fn: () => void) => void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psam-migrate-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+const migrations = [
+  { to: 2, description: 'wrap', migrate: (items: any) => ({ version: 2, items }) },
+  { to: 3, description: 'rename', migrate: (doc: any) => ({ version: 3, entries: doc.items }) }
+];
+const schema = Type.Object({ version: Type.Literal(3), entries: Type.Array(Type.String()) });
+
+test('each step runs in order and backs up the document it replaces', (t) => {
+  const file = path.join(tempDir(t), 'doc.json');
+  const migrated = migrateDocument<any>(file, ['a', 'b'], 1, migrations, schema, logger);
+
+  assert.deepEqual(migrated, { version: 3, entries: ['a', 'b'] });
+  assert.deepEqual(JSON.parse(fs.readFileSync(`${file}.v1.backup`, 'utf-8')), ['a', 'b']);
+  assert.deepEqual(JSON.parse(fs.readFileSync(`${file}.v2.backup`, 'utf-8')), { version: 2, items: ['a', 'b'] });
+});
+
+test('a current document is only validated', (t) => {
+  const dir = tempDir(t);
+  const file = path.join(dir, 'doc.json');
+  const doc = { version: 3, entries: ['a'] };
+
+  assert.deepEqual(migrateDocument(file, doc, 3, migrations, schema, logger), doc);
+  assert.deepEqual(fs.readdirSync(dir), []);
+});
+
+test('a newer document is refused', (t) => {
+  const file = path.join(tempDir(t), 'doc.json');
+  assert.throws(() => migrateDocument(file, { version: 4 }, 4, migrations, schema, logger),
+    /schema version 4, but this plugin version only supports up to 3/);
+});
+
+test('a document that does not match the schema is refused', (t) => {
+  const file = path.join(tempDir(t), 'doc.json');
+  assert.throws(() => migrateDocument(file, { version: 3, entries: [1] }, 3, migrations, schema, logger),
+    /does not match schema version 3: \/entries\/0/);
+});
+
+test('a bare models list is upgraded in place with a backup', (t) => {
+  const file = path.join(tempDir(t), 'models.json');
+  const models = [{ id: 'm1', capabilities: { speed: 'fast', cost: 'low', context_length: 'short', reasoning: 'basic' } }];
+  fs.writeFileSync(file, JSON.stringify(models));
+
+  const selector = new ModelSelector(file, logger);
+  assert.deepEqual(selector.list().map(m => m.id), ['m1']);
+  assert.deepEqual(JSON.parse(fs.readFileSync(`${file}.v1.backup`, 'utf-8')), models);
+  assert.equal(JSON.parse(fs.readFileSync(file, 'utf-8')).version, 2);
+});
+
+test('models from a newer plugin fall back to the defaults and are not overwritten', (t) => {
+  const file = path.join(tempDir(t), 'models.json');
+  const content = JSON.stringify({ version: 99, models: [] });
+  fs.writeFileSync(file, content);
+
+  const selector = new ModelSelector(file, logger);
+  assert.ok(selector.list().length > 0);
+  for (const result of [
+    selector.add('m2', { speed: 'fast', cost: 'low', context_length: 'short', reasoning: 'basic' }),
+    selector.remove(selector.list()[0].id),
+    selector.replaceAll([selector.list()[0].id]),
+    selector.reset()
+  ]) {
+    assert.equal(result.success, false);
+    assert.match(result.error!, /could not be loaded/);
+  }
+  assert.equal(fs.readFileSync(file, 'utf-8'), content);
+});
+
+test('changing models does not touch the built-in defaults', (t) => {
+  const dir = tempDir(t);
+  const first = new ModelSelector(path.join(dir, 'a.json'), logger);
+  const defaults = first.list().map(m => ({ ...m, capabilities: { ...m.capabilities } }));
+  first.list()[0].capabilities.speed = 'slow';
+  first.remove(defaults[1].id);
+
+  const second = new ModelSelector(path.join(dir, 'b.json'), logger);
+  assert.deepEqual(second.list(), defaults);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Value } from '@sinclair/typebox/value';
+import { fromJsonSchema, validateJsonSchema } from '../index.ts';
+
+const schema = {
+  type: 'object',
+  required: ['title', 'rows'],
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    rows: { type: 'array', items: { $ref: '#/definitions/row' } },
+    kind: { enum: ['table', 'list'] }
+  },
+  additionalProperties: false,
+  definitions: {
+    row: { type: 'object', required: ['n'], properties: { n: { type: 'integer', minimum: 0 } } }
+  }
+};
+
+test('validateJsonSchema accepts a matching value', () => {
+  assert.deepEqual(validateJsonSchema(schema, { title: 't', rows: [{ n: 1 }, { n: 2 }], kind: 'table' }), []);
+});
+
+test('validateJsonSchema reports errors with JSON paths', () => {
+  const errors = validateJsonSchema(schema, { title: 't', rows: [{ n: 1 }, { n: 'two' }] });
+  assert.ok(errors.length > 0);
+  assert.ok(errors.some(error => error.startsWith('$.rows[1].n:')), errors.join('\n'));
+});
+
+test('validateJsonSchema reports missing required and extra properties', () => {
+  assert.ok(validateJsonSchema(schema, { rows: [] }).some(error => error.startsWith('$.title:')));
+  assert.ok(validateJsonSchema(schema, { title: 't', rows: [], extra: 1 }).length > 0);
+});
+
+test('validateJsonSchema checks constraints and enums', () => {
+  assert.ok(validateJsonSchema(schema, { title: '', rows: [] }).length > 0);
+  assert.ok(validateJsonSchema(schema, { title: 't', rows: [{ n: -1 }] }).length > 0);
+  assert.ok(validateJsonSchema(schema, { title: 't', rows: [], kind: 'graph' }).length > 0);
+});
+
+test('validateJsonSchema accepts anything for a missing schema', () => {
+  assert.deepEqual(validateJsonSchema(undefined as any, 42), []);
+});
+
+test('fromJsonSchema handles type lists, const and anyOf', () => {
+  assert.ok(Value.Check(fromJsonSchema({ type: ['string', 'null'] }), null));
+  assert.ok(!Value.Check(fromJsonSchema({ type: ['string', 'null'] }), 1));
+  assert.ok(Value.Check(fromJsonSchema({ const: 'x' }), 'x'));
+  assert.ok(!Value.Check(fromJsonSchema({ const: 'x' }), 'y'));
+  const either = fromJsonSchema({ anyOf: [{ type: 'number' }, { type: 'boolean' }] });
+  assert.ok(Value.Check(either, true));
+  assert.ok(!Value.Check(either, 'no'));
+});
+
+test('fromJsonSchema treats unknown keywords and non-objects as unconstrained', () => {
+  assert.ok(Value.Check(fromJsonSchema({ format: 'email' }), 'anything'));
+  assert.ok(Value.Check(fromJsonSchema(null), { any: 'value' }));
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import plugin, { parseProgressMarkers } from '../index.ts';
+
+test('parseProgressMarkers reads the three marker kinds in order', () => {
+  const text = 'Working.\n[PSAM-PROGRESS] sub-1 | Step 2/5 | Parsed input\n' +
+    '[PSAM-FAILED] sub-1 | Reason: timeout\n[PSAM-COMPLETE] sub-1 | Result: done';
+  assert.deepEqual(parseProgressMarkers(text), [
+    { kind: 'progress', subTaskId: 'sub-1', step: 2, totalSteps: 5, message: 'Parsed input' },
+    { kind: 'failed', subTaskId: 'sub-1', message: 'timeout' },
+    { kind: 'complete', subTaskId: 'sub-1', message: 'done' }
+  ]);
+});
+
+test('a marker body runs over several lines until the next marker', () => {
+  const text = '[PSAM-PROGRESS] sub-1 | Step 1/2 | first\n[PSAM-COMPLETE] sub-1 | Result: line one\nline two\n- bullet\n';
+  const markers = parseProgressMarkers(text);
+  assert.equal(markers.length, 2);
+  assert.equal(markers[1].message, 'line one\nline two\n- bullet');
+});
+
+test('the Chinese step and result labels are accepted', () => {
+  assert.deepEqual(parseProgressMarkers('[PSAM-PROGRESS] s | 步骤 3/4 | 分析'), [
+    { kind: 'progress', subTaskId: 's', step: 3, totalSteps: 4, message: '分析' }
+  ]);
+  assert.equal(parseProgressMarkers('[PSAM-COMPLETE] s | 结果：完成')[0].message, '完成');
+});
+
+test('progress markers without a step are skipped', () => {
+  assert.deepEqual(parseProgressMarkers('[PSAM-PROGRESS] s | halfway there'), []);
+  assert.deepEqual(parseProgressMarkers('no markers here'), []);
+});
+
+test('agent_end applies only the markers of messages it has not seen', async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psam-markers-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  // OpenClaw's loader defines __filename; pointing it here keeps the repo's config.json out
+  (globalThis as any).__filename = path.join(dir, 'index.ts');
+  const tools: Record<string, any> = {};
+  const handlers: Record<string, (event: any, ctx: any) => Promise<void>> = {};
+  const api: any = {
+    logger: { info() {}, warn() {}, error() {}, debug() {} },
+    registerTool: (tool: any, opts?: { name?: string }) => {
+      tools[opts?.name ?? tool.name] = typeof tool === 'function' ? tool({}) : tool;
+    },
+    on: (event: string, handler: any) => { handlers[event] = handler; }
+  };
+  plugin.register(api, {
+    logsPath: path.join(dir, 'logs'),
+    statePath: path.join(dir, 'state'),
+    progressPath: path.join(dir, 'progress'),
+    modelsConfigPath: path.join(dir, 'models.json'),
+    enableAutoCleanup: false,
+    heartbeatIntervalMs: 0
+  });
+
+  const created = await tools.parallel_subagent_orchestrator_orchestrate.execute('call', {
+    task_description: 'Markers', subtasks: [{ description: 'only' }]
+  });
+  const subTaskId = created.details.spawnInstructions[0].subTaskId;
+  const sessionKey = 'agent:main:subagent:0b5c9e2e-replay';
+  await tools.parallel_subagent_orchestrator_orchestrate_bind_session.execute('call', { sub_task_id: subTaskId, session_id: sessionKey });
+
+  const messages: any[] = [{ role: 'assistant', content: `[PSAM-PROGRESS] ${subTaskId} | Step 2/5 | from marker` }];
+  await handlers.agent_end({ messages }, { sessionKey });
+  await handlers.message_sent({ content: `[PSAM-PROGRESS] ${subTaskId} | Step 2/5 | from message` }, { sessionKey });
+
+  // The same transcript again, plus a message without markers
+  messages.push({ role: 'user', content: 'continue' });
+  await handlers.agent_end({ messages }, { sessionKey });
+
+  const status = await tools.parallel_subagent_orchestrator_orchestrate_status.execute('call', {});
+  assert.match(status.content[0].text, /from message/);
+  assert.doesNotMatch(status.content[0].text, /from marker/);
+});
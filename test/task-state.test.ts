@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TaskStateManager } from '../index.ts';
+
+const logger = { info() {}, warn() {}, error() {}, debug() {} };
+
+function stateDir(t: { after: (fn: () => void) => void }): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'psam-state-'));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+function addTask(manager: TaskStateManager, subTasks = 2) {
+  const mainTask = manager.createMainTask('Task');
+  const ids = Array.from({ length: subTasks }, (_, i) =>
+    manager.createSubTask(mainTask.id, `part ${i + 1}`, 'role', ['a', 'b', 'c'], 'outcome')!.id);
+  return { mainTaskId: mainTask.id, ids };
+}
+
+const report = (currentStep: number, message = '') =>
+  ({ currentStep, totalSteps: 3, status: 'in_progress' as const, message, timestamp: Date.now() });
+
+test('changes are journaled and replayed by a new manager', (t) => {
+  const dir = stateDir(t);
+  const writer = new TaskStateManager(dir, logger);
+  const { mainTaskId, ids } = addTask(writer);
+  writer.updateSubTaskStatus(ids[0], 'running', { childSessionId: 'agent:x:subagent:1', startTime: Date.now() });
+  writer.recordProgress(ids[0], report(2, 'halfway'));
+
+  assert.ok(fs.existsSync(path.join(dir, 'tasks.journal.jsonl')));
+  assert.ok(!fs.existsSync(path.join(dir, 'tasks.json')));
+
+  const reader = new TaskStateManager(dir, logger);
+  const subTask = reader.findSubTask(ids[0])!;
+  assert.equal(subTask.status, 'running');
+  assert.equal(subTask.currentStepIndex, 1);
+  assert.equal(subTask.timeline?.[0].message, 'halfway');
+  assert.equal(reader.getTask(mainTaskId)!.subTasks.length, 2);
+  assert.equal(reader.resolveSession('agent:x:subagent:1').match?.subTask.id, ids[0]);
+});
+
+test('managers sharing a directory see and keep each other\'s changes', (t) => {
+  const dir = stateDir(t);
+  const a = new TaskStateManager(dir, logger);
+  const b = new TaskStateManager(dir, logger);
+  const { mainTaskId, ids } = addTask(a);
+
+  // Interleaved updates to different sub-tasks of one main task
+  for (let i = 1; i <= 5; i++) {
+    a.recordUsage(ids[0], { inputTokens: i * 100, outputTokens: i * 10, costUsd: 0 });
+    b.recordUsage(ids[1], { inputTokens: i * 200, outputTokens: i * 20, costUsd: 0 });
+  }
+  b.updateSubTaskStatus(ids[1], 'completed');
+
+  for (const manager of [a, b, new TaskStateManager(dir, logger)]) {
+    const mainTask = manager.getTask(mainTaskId)!;
+    assert.deepEqual(mainTask.usage, { inputTokens: 1500, outputTokens: 150, costUsd: 0 });
+    assert.equal(manager.findSubTask(ids[0])!.usage!.inputTokens, 500);
+    assert.equal(manager.findSubTask(ids[1])!.status, 'completed');
+  }
+});
+
+test('a subtask update leaves the main task record alone unless the main task changes', (t) => {
+  const dir = stateDir(t);
+  const manager = new TaskStateManager(dir, logger);
+  const { ids } = addTask(manager);
+  const journal = () => fs.readFileSync(path.join(dir, 'tasks.journal.jsonl'), 'utf-8').trim().split('\n').map(line => JSON.parse(line));
+
+  const before = journal().length;
+  manager.updateSubTaskStatus(ids[0], 'completed');
+  assert.deepEqual(journal().slice(before).map(entry => entry.op), ['subtask']);
+
+  manager.updateSubTaskStatus(ids[1], 'completed');
+  assert.deepEqual(journal().slice(before + 1).map(entry => entry.op).sort(), ['subtask', 'task']);
+});
+
+test('the journal is compacted into tasks.json after 1000 entries', (t) => {
+  const dir = stateDir(t);
+  const manager = new TaskStateManager(dir, logger);
+  const { mainTaskId, ids } = addTask(manager, 1);
+  for (let i = 0; i < 1000; i++) {
+    manager.recordProgress(ids[0], report(1 + (i % 3), `report ${i}`));
+  }
+
+  const snapshot = JSON.parse(fs.readFileSync(path.join(dir, 'tasks.json'), 'utf-8'));
+  assert.equal(snapshot.tasks[0].id, mainTaskId);
+  const journalLines = fs.readFileSync(path.join(dir, 'tasks.journal.jsonl'), 'utf-8').split('\n').filter(Boolean);
+  assert.ok(journalLines.length < 1000);
+
+  const reloaded = new TaskStateManager(dir, logger).findSubTask(ids[0])!;
+  assert.equal(reloaded.timeline!.length, 1000);
+  assert.equal(reloaded.timeline![999].message, 'report 999');
+});
+
+test('old tasks are deleted for every manager', (t) => {
+  const dir = stateDir(t);
+  const a = new TaskStateManager(dir, logger);
+  const b = new TaskStateManager(dir, logger);
+  const { mainTaskId } = addTask(a);
+  assert.equal(b.getAllTasks().length, 1);
+
+  assert.equal(a.deleteOldTasks(-1), 1);
+  assert.equal(b.getTask(mainTaskId), null);
+  assert.equal(new TaskStateManager(dir, logger).getAllTasks().length, 0);
+});
+
+test('a failed write is thrown and rolls the in-memory state back', (t) => {
+  const dir = stateDir(t);
+  const manager = new TaskStateManager(dir, logger);
+  const { mainTaskId, ids } = addTask(manager);
+
+  const append = (manager as any).append;
+  (manager as any).append = () => { throw new Error('disk full'); };
+  assert.throws(() => manager.updateSubTaskStatus(ids[0], 'failed', { errorLog: 'boom' }), /disk full/);
+  assert.throws(() => manager.createSubTask(mainTaskId, 'extra', 'role', ['a'], 'outcome'), /disk full/);
+  (manager as any).append = append;
+
+  const subTask = manager.findSubTask(ids[0])!;
+  assert.equal(subTask.status, 'pending');
+  assert.equal(subTask.errorLog, undefined);
+  assert.equal(manager.getTask(mainTaskId)!.subTasks.length, 2);
+  assert.ok(!fs.existsSync(path.join(dir, 'tasks.lock')));
+
+  // The manager keeps working afterwards
+  assert.ok(manager.updateSubTaskStatus(ids[0], 'running'));
+  assert.equal(new TaskStateManager(dir, logger).findSubTask(ids[0])!.status, 'running');
+});
+
+test('a lock left by a process that is gone is broken', (t) => {
+  const dir = stateDir(t);
+  const manager = new TaskStateManager(dir, logger);
+  fs.writeFileSync(path.join(dir, 'tasks.lock'), JSON.stringify({ pid: 2 ** 22 + 1, at: Date.now() }));
+
+  const { ids } = addTask(manager, 1);
+  assert.ok(manager.findSubTask(ids[0]));
+  assert.ok(!fs.existsSync(path.join(dir, 'tasks.lock')));
+  assert.deepEqual(fs.readdirSync(dir).filter(file => file.startsWith('tasks.lock')), []);
+});
+
+test('a change gives up on a lock held by a live process', (t) => {
+  const dir = stateDir(t);
+  const manager = new TaskStateManager(dir, logger);
+  fs.writeFileSync(path.join(dir, 'tasks.lock'), JSON.stringify({ pid: process.ppid, at: Date.now() }));
+
+  assert.throws(() => manager.createMainTask('Blocked'), /Timed out waiting/);
+  assert.ok(fs.existsSync(path.join(dir, 'tasks.lock')));
+  assert.equal(manager.getAllTasks().length, 0);
+});